@@ -1,5 +1,6 @@
 import { createMcpHandler } from 'mcp-handler';
 import { registerAllTools } from '@/tools';
+import { MAX_DURATION_S } from '@/lib/cancellation';
 
 const handler = createMcpHandler(
   (server) => {
@@ -9,7 +10,7 @@ const handler = createMcpHandler(
   {},
   {
     basePath: '/',
-    maxDuration: 60,
+    maxDuration: MAX_DURATION_S,
     verboseLogs: process.env.NODE_ENV === 'development',
   },
 );
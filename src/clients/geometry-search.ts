@@ -0,0 +1,141 @@
+import { nvvClient } from './nvv-client';
+import { n2000Client } from './n2000-client';
+import { ramsarClient } from './ramsar-client';
+import { wfsClient, type WfsBboxArea, type WfsBboxFeature } from './wfs-client';
+import type { Sweref99Bbox } from '@/lib/coordinates';
+import { UpstreamApiError } from '@/lib/errors';
+import { throwIfCancelled } from '@/lib/cancellation';
+import { parseWktPolygons, multiPolygonBoundingBox, type MultiPolygonCoords } from '@/lib/geometry';
+import { compareAreas, type AreaOverlap } from '@/lib/site-links';
+
+/** Max WFS candidates per source when looking for overlapping designations */
+const MAX_RELATED_CANDIDATES = 200;
+
+export type SourcedFeature = WfsBboxFeature & { source: 'national' | 'n2000' | 'ramsar' };
+
+export type SourceError = {
+  source: string;
+  message: string;
+};
+
+/**
+ * Find areas from all three sources near a SWEREF99TM bbox, with their polygons
+ *
+ * National and N2000 come from WFS, Ramsar from the cached Ramsar geometries.
+ * Each source fails independently and is reported in `errors`. `truncated` is set
+ * when a WFS source hit `limit`, meaning some candidates may be missing.
+ */
+export async function searchAllSourcesWithGeometry(
+  bbox: Sweref99Bbox,
+  limit: number,
+): Promise<{ features: SourcedFeature[]; errors: SourceError[]; truncated: boolean }> {
+  const [national, n2000, ramsar] = await Promise.allSettled([
+    wfsClient.searchNationalWithGeometry(bbox, limit),
+    wfsClient.searchN2000WithGeometry(bbox, limit),
+    ramsarClient.searchWithGeometry(bbox),
+  ]);
+
+  const features: SourcedFeature[] = [];
+  const errors: SourceError[] = [];
+
+  if (national.status === 'fulfilled') {
+    features.push(...national.value.map((f) => ({ source: 'national' as const, ...f })));
+  } else {
+    errors.push({
+      source: 'national',
+      message: national.reason?.message ?? 'An unexpected error occurred while searching national protected areas.',
+    });
+  }
+
+  if (n2000.status === 'fulfilled') {
+    features.push(...n2000.value.map((f) => ({ source: 'n2000' as const, ...f })));
+  } else {
+    errors.push({
+      source: 'n2000',
+      message: n2000.reason?.message ?? 'An unexpected error occurred while searching Natura 2000 areas.',
+    });
+  }
+
+  if (ramsar.status === 'fulfilled') {
+    features.push(...ramsar.value.map((f) => ({ source: 'ramsar' as const, ...f })));
+  } else {
+    errors.push({
+      source: 'ramsar',
+      message: ramsar.reason?.message ?? 'An unexpected error occurred while searching Ramsar wetland areas.',
+    });
+  }
+
+  const truncated =
+    (national.status === 'fulfilled' && national.value.length >= limit) ||
+    (n2000.status === 'fulfilled' && n2000.value.length >= limit);
+
+  return { features, errors, truncated };
+}
+
+/**
+ * Throw when no source could be searched, so an outage isn't reported as "no areas here"
+ *
+ * A cancelled call throws its CancelledError; otherwise the error lists each source's failure.
+ */
+export function throwIfAllSourcesFailed(errors: SourceError[]): void {
+  if (errors.length < 3) return;
+  throwIfCancelled();
+  throw new UpstreamApiError(
+    `No source could be searched: ${errors.map((e) => `${e.source}: ${e.message}`).join(' ')}`,
+    502,
+    'geodata.naturvardsverket.se',
+    { errors },
+  );
+}
+
+/**
+ * Note naming the sources that failed, for results that are missing their areas
+ */
+export function failedSourcesNote(errors: SourceError[]): string {
+  return `Not searched: ${errors.map((e) => e.source).join(', ')} (see errors) — areas from these sources may be missing.`;
+}
+
+/**
+ * Get one area's polygon in SWEREF99TM. Ramsar comes from the cached geometries.
+ */
+export async function getAreaGeometry(source: SourcedFeature['source'], id: string): Promise<MultiPolygonCoords> {
+  switch (source) {
+    case 'national':
+      return parseWktPolygons(await nvvClient.getAreaWktSweref99(id));
+    case 'n2000':
+      return parseWktPolygons(await n2000Client.getAreaWktSweref99(id));
+    case 'ramsar': {
+      const entry = (await ramsarClient.getAllAreaGeometries()).find((e) => e.area.id === id);
+      return entry ? entry.geometry : parseWktPolygons(await ramsarClient.getAreaWktSweref99(id));
+    }
+  }
+}
+
+export type RelatedArea = WfsBboxArea & { source: SourcedFeature['source'] } & AreaOverlap;
+
+/**
+ * Find designations in other sources (or the same one) that overlap an area
+ *
+ * Candidates come from a bbox search around the area's polygon and are compared by
+ * area-weighted overlap. Sorted by IoU, best match first.
+ */
+export async function findRelatedAreas(
+  source: SourcedFeature['source'],
+  id: string,
+  geometry: MultiPolygonCoords,
+): Promise<{ related: RelatedArea[]; errors: SourceError[]; truncated: boolean }> {
+  const { features, errors, truncated } = await searchAllSourcesWithGeometry(
+    multiPolygonBoundingBox(geometry),
+    MAX_RELATED_CANDIDATES,
+  );
+
+  const related: RelatedArea[] = [];
+  for (const { geometry: candidate, ...area } of features) {
+    if (area.source === source && area.id === id) continue;
+    const overlap = compareAreas(geometry, candidate);
+    if (overlap) related.push({ ...area, ...overlap });
+  }
+
+  related.sort((a, b) => b.iou - a.iou);
+  return { related, errors, truncated };
+}
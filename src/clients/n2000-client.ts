@@ -1,4 +1,7 @@
 import { createHttpClient } from '@/lib/http-client';
+import { CACHE_TTL, isCacheBypassed } from '@/lib/response-cache';
+import { detachFromCancellation, abortable } from '@/lib/cancellation';
+import { createAreaWktApi, combinedExtentWkt } from '@/lib/area-wkt';
 import { runWithConcurrency, NVV_API_CONCURRENCY } from '@/lib/concurrency';
 import { extractBoundingBoxFromWkt, combineBoundingBoxes, boundingBoxToWkt, convertWktToWgs84 } from '@/lib/wkt-utils';
 import {
@@ -19,8 +22,20 @@ const N2000_API_BASE = 'https://geodata.naturvardsverket.se/n2000/rest/v3';
 const client = createHttpClient({
   baseUrl: N2000_API_BASE,
   timeout: 30000,
+  cacheTtl: (path) => {
+    if (/^\/(arter|naturtyper|omrade\/omradestyper)\b/.test(path)) return CACHE_TTL.reference;
+    if (path.startsWith('/omrade/nolinks') || path.startsWith('/omrade/extentAsWkt')) return CACHE_TTL.search;
+    return CACHE_TTL.area;
+  },
 });
 
+const wktApi = createAreaWktApi(client, N2000_API_BASE, { path: '/omrade/extentAsWkt', idParam: 'kod' });
+
+// Reference catalogues (/arter, /naturtyper) rarely change — keep them for the process lifetime.
+// Loads are shared between calls, so they run detached from the caller's cancellation.
+let speciesCatalog: Promise<N2000Species[]> | null = null;
+let habitatCatalog: Promise<N2000Habitat[]> | null = null;
+
 /**
  * Transform raw N2000 area to clean format
  */
@@ -153,10 +168,19 @@ export const n2000Client = {
    * Endpoint: GET /omrade/{kod}/wkt
    */
   async getAreaWkt(kod: string): Promise<string> {
-    const wkt = await client.request<string>(`/omrade/${encodeURIComponent(kod)}/wkt`);
+    const wkt = await this.getAreaWktSweref99(kod);
     return convertWktToWgs84(wkt);
   },
 
+  /**
+   * Get WKT geometry for a Natura 2000 area as served upstream (SWEREF99TM)
+   * Endpoint: GET /omrade/{kod}/wkt
+   */
+  async getAreaWktSweref99(kod: string): Promise<string> {
+    const path = `/omrade/${encodeURIComponent(kod)}/wkt`;
+    return wktApi.areaWkt(path);
+  },
+
   /**
    * Get documents for a Natura 2000 area
    * Endpoint: GET /omrade/{kod}/dokument
@@ -175,6 +199,18 @@ export const n2000Client = {
     return species.map(transformSpecies);
   },
 
+  /**
+   * Get the species catalogue, cached after the first successful fetch (reloaded when bypassing the cache)
+   */
+  async getSpeciesCatalog(): Promise<N2000Species[]> {
+    if (isCacheBypassed()) speciesCatalog = null;
+    speciesCatalog ??= detachFromCancellation(() => this.getAllSpecies()).catch((error) => {
+      speciesCatalog = null;
+      throw error;
+    });
+    return abortable(speciesCatalog);
+  },
+
   /**
    * Get species by group
    * Endpoint: GET /arter/{grupp}
@@ -193,6 +229,18 @@ export const n2000Client = {
     return habitats.map(transformHabitat);
   },
 
+  /**
+   * Get the habitat type catalogue, cached after the first successful fetch (reloaded when bypassing the cache)
+   */
+  async getHabitatCatalog(): Promise<N2000Habitat[]> {
+    if (isCacheBypassed()) habitatCatalog = null;
+    habitatCatalog ??= detachFromCancellation(() => this.getAllHabitats()).catch((error) => {
+      habitatCatalog = null;
+      throw error;
+    });
+    return abortable(habitatCatalog);
+  },
+
   /**
    * Get area types (SPA, SCI, SPA/SCI)
    * Endpoint: GET /omrade/omradestyper
@@ -201,25 +249,24 @@ export const n2000Client = {
     return client.request<string[]>('/omrade/omradestyper');
   },
 
+  /**
+   * Get bounding box for multiple areas as served upstream (SWEREF99TM)
+   * Same endpoint and client-side fallback as getAreasExtent, without reprojection
+   */
+  async getAreasExtentSweref99(kods: string[]): Promise<string> {
+    return wktApi.extent(
+      kods,
+      (wkt) => wkt,
+      () => combinedExtentWkt(kods, (kod) => this.getAreaWktSweref99(kod)),
+    );
+  },
+
   /**
    * Get bounding box for multiple areas (returned in WGS84)
    * Uses same workaround pattern as nvvClient for API bugs
    */
   async getAreasExtent(kods: string[]): Promise<string> {
-    try {
-      const result = await client.request<string>('/omrade/extentAsWkt', {
-        params: { kod: kods.join(',') },
-      });
-
-      if (result.startsWith('POLYGON')) {
-        return convertWktToWgs84(result);
-      }
-
-      throw new Error('Invalid WKT response');
-    } catch {
-      // Fallback to client-side computation
-      return this.computeExtentClientSide(kods);
-    }
+    return wktApi.extent(kods, convertWktToWgs84, () => this.computeExtentClientSide(kods));
   },
 
   /**
@@ -1,4 +1,6 @@
 import { createHttpClient } from '@/lib/http-client';
+import { CACHE_TTL } from '@/lib/response-cache';
+import { createAreaWktApi, combinedExtentWkt } from '@/lib/area-wkt';
 import { runWithConcurrency, NVV_API_CONCURRENCY } from '@/lib/concurrency';
 import { extractBoundingBoxFromWkt, combineBoundingBoxes, boundingBoxToWkt, convertWktToWgs84 } from '@/lib/wkt-utils';
 import {
@@ -22,8 +24,12 @@ const NVV_API_BASE = 'https://geodata.naturvardsverket.se/naturvardsregistret/re
 const client = createHttpClient({
   baseUrl: NVV_API_BASE,
   timeout: 30000,
+  cacheTtl: (path) =>
+    path.startsWith('/omrade/nolinks') || path.startsWith('/omrade/extentAsWkt') ? CACHE_TTL.search : CACHE_TTL.area,
 });
 
+const wktApi = createAreaWktApi(client, NVV_API_BASE, { path: '/omrade/extentAsWkt', idParam: 'id' });
+
 /**
  * Transform raw NVV area to our clean format
  */
@@ -86,10 +92,19 @@ export const nvvClient = {
    * Endpoint: GET /omrade/{areaId}/{status}/wkt
    */
   async getAreaWkt(areaId: string, status = DEFAULT_DECISION_STATUS): Promise<string> {
-    const wkt = await client.request<string>(`/omrade/${encodeURIComponent(areaId)}/${encodeURIComponent(status)}/wkt`);
+    const wkt = await this.getAreaWktSweref99(areaId, status);
     return convertWktToWgs84(wkt);
   },
 
+  /**
+   * Get WKT geometry for an area as served upstream (SWEREF99TM)
+   * Endpoint: GET /omrade/{areaId}/{status}/wkt
+   */
+  async getAreaWktSweref99(areaId: string, status = DEFAULT_DECISION_STATUS): Promise<string> {
+    const path = `/omrade/${encodeURIComponent(areaId)}/${encodeURIComponent(status)}/wkt`;
+    return wktApi.areaWkt(path);
+  },
+
   /**
    * Get purposes for an area
    * Endpoint: GET /omrade/{areaId}/{status}/syften
@@ -162,6 +177,18 @@ export const nvvClient = {
     }));
   },
 
+  /**
+   * Get bounding box for multiple areas as served upstream (SWEREF99TM)
+   * Same endpoint and client-side fallback as getAreasExtent, without reprojection
+   */
+  async getAreasExtentSweref99(areaIds: string[]): Promise<string> {
+    return wktApi.extent(
+      areaIds,
+      (wkt) => wkt,
+      () => combinedExtentWkt(areaIds, (areaId) => this.getAreaWktSweref99(areaId)),
+    );
+  },
+
   /**
    * Get bounding box for multiple areas (returned in WGS84)
    * Endpoint: GET /omrade/extentAsWkt
@@ -171,24 +198,9 @@ export const nvvClient = {
    * and if it fails, we fall back to computing the extent client-side.
    */
   async getAreasExtent(areaIds: string[]): Promise<string> {
-    // WORKAROUND: Try original API first (auto-heals when NVV fixes their bug)
-    try {
-      const result = await client.request<string>('/omrade/extentAsWkt', {
-        params: { id: areaIds.join(',') },
-      });
-
-      // Check if response is valid WKT (starts with POLYGON)
-      if (result.startsWith('POLYGON')) {
-        return convertWktToWgs84(result);
-      }
-
-      // Response was not valid WKT, fall back to workaround
-      throw new Error('Invalid WKT response');
-    } catch {
-      // WORKAROUND: NVV API bug detected (HTTP 500 or invalid response)
-      // Fall back to computing extent client-side
-      return this.computeExtentClientSide(areaIds);
-    }
+    // WORKAROUND: Try original API first (auto-heals when NVV fixes their bug); on HTTP 500
+    // or malformed WKT (e.g. an Oracle error message), fall back to computing the extent client-side
+    return wktApi.extent(areaIds, convertWktToWgs84, () => this.computeExtentClientSide(areaIds));
   },
 
   /**
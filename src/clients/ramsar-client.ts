@@ -1,6 +1,25 @@
 import { createHttpClient } from '@/lib/http-client';
+import { CACHE_TTL, isCacheBypassed } from '@/lib/response-cache';
+import { detachFromCancellation, abortable } from '@/lib/cancellation';
+import { createAreaWktApi, combinedExtentWkt } from '@/lib/area-wkt';
 import { runWithConcurrency, NVV_API_CONCURRENCY } from '@/lib/concurrency';
-import { extractBoundingBoxFromWkt, combineBoundingBoxes, boundingBoxToWkt, convertWktToWgs84 } from '@/lib/wkt-utils';
+import {
+  extractBoundingBoxFromWkt,
+  combineBoundingBoxes,
+  boundingBoxToWkt,
+  convertWktToWgs84,
+  type BoundingBox,
+} from '@/lib/wkt-utils';
+import {
+  parseWktPolygons,
+  multiPolygonBoundingBox,
+  boundingBoxesOverlap,
+  multiPolygonIntersectsBoundingBox,
+  type MultiPolygonCoords,
+} from '@/lib/geometry';
+import type { Sweref99Bbox } from '@/lib/coordinates';
+import { matchesAreaFilters, type AreaFilters } from '@/lib/area-filters';
+import type { WfsBboxArea, WfsBboxFeature, WfsBboxPage } from './wfs-client';
 import {
   type RamsarRawArea,
   type RamsarRawNmdKlass,
@@ -15,8 +34,29 @@ const RAMSAR_API_BASE = 'https://geodata.naturvardsverket.se/internationellakonv
 const client = createHttpClient({
   baseUrl: RAMSAR_API_BASE,
   timeout: 30000,
+  cacheTtl: (path) => {
+    if (path.startsWith('/ramsar/skyddstyper')) return CACHE_TTL.reference;
+    if (path.startsWith('/ramsar/nolinks') || path.startsWith('/ramsar/extentAsWkt')) return CACHE_TTL.search;
+    return CACHE_TTL.area;
+  },
 });
 
+const wktApi = createAreaWktApi(client, RAMSAR_API_BASE, { path: '/ramsar/extentAsWkt', idParam: 'id' });
+
+/**
+ * Ramsar area with its polygon in SWEREF99TM, for client-side geometry tests
+ */
+export interface RamsarAreaGeometry {
+  area: RamsarArea;
+  geometry: MultiPolygonCoords;
+  bbox: BoundingBox;
+}
+
+// Sweden has ~68 Ramsar sites and no Ramsar WFS, so spatial queries use a cached copy of all geometries
+const GEOMETRY_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_RAMSAR_AREAS = 500;
+let geometryCache: { loadedAt: number; geometries: Promise<RamsarAreaGeometry[]> } | null = null;
+
 /**
  * Transform raw Ramsar area to clean format
  */
@@ -61,6 +101,20 @@ function transformProtectionType(type: RamsarRawProtectionType): RamsarProtectio
   };
 }
 
+/**
+ * Summarize a Ramsar area in the same shape as WFS bbox hits
+ */
+function toBboxArea(area: RamsarArea): WfsBboxArea {
+  return {
+    id: area.id,
+    name: area.name,
+    type: area.protection_type,
+    area_ha: area.total_area_ha,
+    municipalities: area.municipalities,
+    county: area.county,
+  };
+}
+
 export const ramsarClient = {
   /**
    * List Ramsar wetland areas
@@ -99,10 +153,82 @@ export const ramsarClient = {
    * Endpoint: GET /ramsar/{id}/wkt
    */
   async getAreaWkt(id: string): Promise<string> {
-    const wkt = await client.request<string>(`/ramsar/${encodeURIComponent(id)}/wkt`);
+    const wkt = await this.getAreaWktSweref99(id);
     return convertWktToWgs84(wkt);
   },
 
+  /**
+   * Get WKT geometry for a Ramsar area as served upstream (SWEREF99TM)
+   * Endpoint: GET /ramsar/{id}/wkt
+   */
+  async getAreaWktSweref99(id: string): Promise<string> {
+    const path = `/ramsar/${encodeURIComponent(id)}/wkt`;
+    return wktApi.areaWkt(path);
+  },
+
+  /**
+   * Get every Ramsar area with its SWEREF99TM polygon
+   *
+   * Cached for 24 hours, and reloaded for a call that bypasses the cache. A failed load is not
+   * cached, so the next call retries. The load is shared by concurrent callers, so it runs on
+   * even if the call that started it is cancelled.
+   */
+  async getAllAreaGeometries(): Promise<RamsarAreaGeometry[]> {
+    if (geometryCache && Date.now() - geometryCache.loadedAt < GEOMETRY_CACHE_TTL_MS && !isCacheBypassed()) {
+      return abortable(geometryCache.geometries);
+    }
+
+    const geometries = detachFromCancellation(async () => {
+      const areas = await this.listAreas({ limit: MAX_RAMSAR_AREAS });
+      const wkts = await runWithConcurrency(
+        areas.map((area) => () => this.getAreaWktSweref99(area.id)),
+        NVV_API_CONCURRENCY,
+      );
+      return areas.map((area, i) => {
+        const geometry = parseWktPolygons(wkts[i]);
+        return { area, geometry, bbox: multiPolygonBoundingBox(geometry) };
+      });
+    });
+
+    const entry = { loadedAt: Date.now(), geometries };
+    geometryCache = entry;
+    geometries.catch(() => {
+      if (geometryCache === entry) geometryCache = null;
+    });
+    return abortable(geometries);
+  },
+
+  /**
+   * Find Ramsar areas whose polygon intersects a SWEREF99TM bbox
+   * Uses the cached geometries — Ramsar has no WFS to query. Attribute filters and paging are applied client-side.
+   */
+  async searchByBbox(bbox: Sweref99Bbox, limit: number, filters: AreaFilters = {}, offset = 0): Promise<WfsBboxPage> {
+    const geometries = await this.getAllAreaGeometries();
+    const matches = geometries
+      .filter(({ area }) =>
+        matchesAreaFilters(
+          { type: area.protection_type, area_ha: area.total_area_ha, decision_date: area.latest_decision },
+          filters,
+        ),
+      )
+      .filter((entry) => boundingBoxesOverlap(entry.bbox, bbox) && multiPolygonIntersectsBoundingBox(entry.geometry, bbox));
+    return {
+      areas: matches.slice(offset, offset + limit).map(({ area }) => toBboxArea(area)),
+      total: matches.length,
+    };
+  },
+
+  /**
+   * Find Ramsar areas whose bounding box overlaps a SWEREF99TM bbox, with their polygons
+   * Counterpart of wfsClient.search*WithGeometry for client-side geometry tests
+   */
+  async searchWithGeometry(bbox: Sweref99Bbox): Promise<WfsBboxFeature[]> {
+    const geometries = await this.getAllAreaGeometries();
+    return geometries
+      .filter((entry) => boundingBoxesOverlap(entry.bbox, bbox))
+      .map(({ area, geometry }) => ({ ...toBboxArea(area), geometry }));
+  },
+
   /**
    * Get land cover (NMD classes) for a Ramsar area
    * Endpoint: GET /ramsar/{id}/nmdklasser
@@ -121,24 +247,23 @@ export const ramsarClient = {
     return types.map(transformProtectionType);
   },
 
+  /**
+   * Get bounding box for multiple areas as served upstream (SWEREF99TM)
+   * Same endpoint and client-side fallback as getAreasExtent, without reprojection
+   */
+  async getAreasExtentSweref99(ids: string[]): Promise<string> {
+    return wktApi.extent(
+      ids,
+      (wkt) => wkt,
+      () => combinedExtentWkt(ids, (id) => this.getAreaWktSweref99(id)),
+    );
+  },
+
   /**
    * Get bounding box for multiple areas (returned in WGS84)
    */
   async getAreasExtent(ids: string[]): Promise<string> {
-    try {
-      const result = await client.request<string>('/ramsar/extentAsWkt', {
-        params: { id: ids.join(',') },
-      });
-
-      if (result.startsWith('POLYGON')) {
-        return convertWktToWgs84(result);
-      }
-
-      throw new Error('Invalid WKT response');
-    } catch {
-      // Fallback to client-side computation
-      return this.computeExtentClientSide(ids);
-    }
+    return wktApi.extent(ids, convertWktToWgs84, () => this.computeExtentClientSide(ids));
   },
 
   /**
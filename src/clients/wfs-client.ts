@@ -1,16 +1,21 @@
 import { createHttpClient } from '@/lib/http-client';
+import { CACHE_TTL } from '@/lib/response-cache';
 import { UpstreamApiError } from '@/lib/errors';
 import type { Sweref99Bbox } from '@/lib/coordinates';
-import type { WfsFeatureCollection, WfsNationalProperties, WfsN2000Properties } from '@/types/nvv-api';
+import { geoJsonToMultiPolygon, type MultiPolygonCoords } from '@/lib/geometry';
+import { hasAreaFilters, type AreaFilters } from '@/lib/area-filters';
+import type { WfsFeatureCollection, WfsFeature, WfsNationalProperties, WfsN2000Properties } from '@/types/nvv-api';
 
 const nationalWfs = createHttpClient({
   baseUrl: 'https://geodata.naturvardsverket.se/naturvardsregistret/wfs',
   timeout: 30000,
+  cacheTtl: () => CACHE_TTL.search,
 });
 
 const n2000Wfs = createHttpClient({
   baseUrl: 'https://geodata.naturvardsverket.se/n2000/wfs',
   timeout: 30000,
+  cacheTtl: () => CACHE_TTL.search,
 });
 
 // WFS 2.0 EPSG:3006 axis order: northing,easting (Y,X then Y,X)
@@ -18,6 +23,90 @@ function buildBboxString(bbox: Sweref99Bbox): string {
   return `${bbox.minY},${bbox.minX},${bbox.maxY},${bbox.maxX},EPSG:3006`;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function fesComparison(operator: string, property: string, value: string | number): string {
+  const matchCase = typeof value === 'string' ? ' matchCase="false"' : '';
+  return (
+    `<fes:${operator}${matchCase}><fes:ValueReference>${property}</fes:ValueReference>` +
+    `<fes:Literal>${escapeXml(String(value))}</fes:Literal></fes:${operator}>`
+  );
+}
+
+/**
+ * WFS property names for each filter, per layer (undefined = not filterable on that layer)
+ */
+interface FilterProperties {
+  type: string;
+  iucnCategory?: string;
+  areaHa: string;
+  decisionDate?: string;
+}
+
+const NATIONAL_FILTER_PROPERTIES: FilterProperties = {
+  type: 'SKYDDSTYP',
+  iucnCategory: 'IUCNKAT',
+  areaHa: 'AREA_HA',
+  decisionDate: 'BESLDATUM',
+};
+
+const N2000_FILTER_PROPERTIES: FilterProperties = {
+  type: 'OMRADESTYP',
+  areaHa: 'AREA_HA',
+};
+
+/**
+ * Build an FES 2.0 filter combining the bbox with attribute filters
+ *
+ * GeoServer rejects cql_filter/filter combined with the bbox parameter, so filtered
+ * searches put the bbox inside the filter. BBOX without a ValueReference applies to
+ * the layer's default geometry, so the geometry column name is not needed.
+ * Corners use the EPSG:3006 northing,easting axis order, same as buildBboxString.
+ */
+function buildFesFilter(bbox: Sweref99Bbox, filters: AreaFilters, properties: FilterProperties): string {
+  const conditions = [
+    '<fes:BBOX><gml:Envelope srsName="urn:ogc:def:crs:EPSG::3006">' +
+      `<gml:lowerCorner>${bbox.minY} ${bbox.minX}</gml:lowerCorner>` +
+      `<gml:upperCorner>${bbox.maxY} ${bbox.maxX}</gml:upperCorner>` +
+      '</gml:Envelope></fes:BBOX>',
+  ];
+
+  if (filters.type) conditions.push(fesComparison('PropertyIsEqualTo', properties.type, filters.type));
+  if (filters.iucnCategory && properties.iucnCategory) {
+    conditions.push(fesComparison('PropertyIsEqualTo', properties.iucnCategory, filters.iucnCategory));
+  }
+  if (filters.minAreaHa !== undefined) {
+    conditions.push(fesComparison('PropertyIsGreaterThanOrEqualTo', properties.areaHa, filters.minAreaHa));
+  }
+  if (filters.maxAreaHa !== undefined) {
+    conditions.push(fesComparison('PropertyIsLessThanOrEqualTo', properties.areaHa, filters.maxAreaHa));
+  }
+  if (filters.decidedAfter && properties.decisionDate) {
+    conditions.push(fesComparison('PropertyIsGreaterThanOrEqualTo', properties.decisionDate, filters.decidedAfter));
+  }
+  if (filters.decidedBefore && properties.decisionDate) {
+    // Inclusive end date: strictly before the following day
+    const nextDay = new Date(Date.parse(filters.decidedBefore) + DAY_MS).toISOString().slice(0, 10);
+    conditions.push(fesComparison('PropertyIsLessThan', properties.decisionDate, nextDay));
+  }
+
+  return (
+    '<fes:Filter xmlns:fes="http://www.opengis.net/fes/2.0" xmlns:gml="http://www.opengis.net/gml/3.2">' +
+    `<fes:And>${conditions.join('')}</fes:And></fes:Filter>`
+  );
+}
+
+/**
+ * Spatial query params: plain bbox, or an FES filter when attribute filters are set
+ */
+function spatialParams(bbox: Sweref99Bbox, filters: AreaFilters, properties: FilterProperties): Record<string, string> {
+  return hasAreaFilters(filters) ? { filter: buildFesFilter(bbox, filters, properties) } : { bbox: buildBboxString(bbox) };
+}
+
 export interface WfsBboxArea {
   id: string;
   name: string;
@@ -27,93 +116,195 @@ export interface WfsBboxArea {
   county: string;
 }
 
+/**
+ * One page of bbox search hits. `total` is the number of matching areas upstream,
+ * when the service reports it (GeoServer's totalFeatures).
+ */
+export interface WfsBboxPage {
+  areas: WfsBboxArea[];
+  total?: number;
+}
+
+/**
+ * Bbox search hit including its polygon in SWEREF99TM (metres)
+ */
+export interface WfsBboxFeature extends WfsBboxArea {
+  geometry: MultiPolygonCoords;
+}
+
+// SWEREF99TM northings are always above 6 000 000 m and eastings below 1 000 000 m in Sweden
+const MIN_SWEREF99_NORTHING = 5_000_000;
+
+/**
+ * Convert a WFS GeoJSON geometry to SWEREF99TM [easting, northing] coordinates
+ *
+ * WFS 2.0 may emit EPSG:3006 in its official northing,easting axis order,
+ * so the order is detected from the first coordinate and swapped if needed.
+ * A malformed geometry fails the search rather than being silently dropped.
+ */
+function toSwerefGeometry(geometry: unknown, upstream: string): MultiPolygonCoords {
+  let polygons: MultiPolygonCoords;
+  try {
+    polygons = geoJsonToMultiPolygon(geometry);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new UpstreamApiError(
+      `The map service returned a malformed area geometry (${reason}). Try again later.`,
+      200,
+      upstream,
+    );
+  }
+  const first = polygons[0]?.[0]?.[0];
+  if (!first || first[0] < MIN_SWEREF99_NORTHING) return polygons;
+  return polygons.map((polygon) => polygon.map((ring) => ring.map(([n, e]) => [e, n])));
+}
+
+function toNationalArea(f: WfsFeature<WfsNationalProperties>): WfsBboxArea {
+  return {
+    id: f.properties.NVRID,
+    name: f.properties.NAMN,
+    type: f.properties.SKYDDSTYP,
+    area_ha: f.properties.AREA_HA,
+    municipalities: f.properties.KOMMUN,
+    county: f.properties.LAN,
+  };
+}
+
+function toN2000Area(f: WfsFeature<WfsN2000Properties>): WfsBboxArea {
+  return {
+    id: f.properties.OMRADESKOD,
+    name: f.properties.OMRADESNAMN,
+    type: f.properties.OMRADESTYP,
+    area_ha: f.properties.AREA_HA,
+    municipalities: f.properties.KOMMUN,
+    county: f.properties.LAN,
+  };
+}
+
+/**
+ * Paging params. startIndex needs a stable order, so results are sorted by area code.
+ */
+function pagingParams(limit: number, offset: number, sortProperty: string): Record<string, string | number> {
+  return { count: limit, ...(offset > 0 && { startIndex: offset }), sortBy: sortProperty };
+}
+
 // GEOJSON is a GeoServer-specific alias; application/json is not supported by NVV's GeoServer.
 // propertyName would exclude geometry but causes malformed JSON output — GeoServer bug.
 
-export const wfsClient = {
-  async searchNational(bbox: Sweref99Bbox, limit: number): Promise<WfsBboxArea[]> {
-    const bboxStr = buildBboxString(bbox);
-
-    let data: WfsFeatureCollection<WfsNationalProperties>;
-    try {
-      data = await nationalWfs.request<WfsFeatureCollection<WfsNationalProperties>>('', {
-        params: {
-          service: 'WFS',
-          version: '2.0.0',
-          request: 'GetFeature',
-          typeNames: 'SkyddadeOmraden',
-          bbox: bboxStr,
-          count: limit,
-          outputFormat: 'GEOJSON',
-        },
-      });
-    } catch (error) {
-      if (error instanceof UpstreamApiError) throw error;
-      throw new UpstreamApiError(
-        'Failed to search national protected areas by location. The data service may be temporarily unavailable — try again or use kommun/lan codes instead.',
-        0,
-        'naturvardsregistret/wfs',
-      );
-    }
-
-    if (!data.features || !Array.isArray(data.features)) {
-      throw new UpstreamApiError(
-        'National protected areas search returned an unexpected response. Try again or use kommun/lan codes instead.',
-        0,
-        'naturvardsregistret/wfs',
-      );
-    }
+async function fetchNationalFeatures(
+  bbox: Sweref99Bbox,
+  limit: number,
+  filters: AreaFilters = {},
+  offset = 0,
+): Promise<WfsFeatureCollection<WfsNationalProperties>> {
+  let data: WfsFeatureCollection<WfsNationalProperties>;
+  try {
+    data = await nationalWfs.request<WfsFeatureCollection<WfsNationalProperties>>('', {
+      params: {
+        service: 'WFS',
+        version: '2.0.0',
+        request: 'GetFeature',
+        typeNames: 'SkyddadeOmraden',
+        ...spatialParams(bbox, filters, NATIONAL_FILTER_PROPERTIES),
+        ...pagingParams(limit, offset, 'NVRID'),
+        outputFormat: 'GEOJSON',
+      },
+      validate: (collection) => {
+        if (!collection.features || !Array.isArray(collection.features)) {
+          throw new UpstreamApiError(
+            'National protected areas search returned an unexpected response. Try again or use kommun/lan codes instead.',
+            0,
+            'naturvardsregistret/wfs',
+          );
+        }
+        return collection;
+      },
+    });
+  } catch (error) {
+    if (error instanceof UpstreamApiError) throw error;
+    throw new UpstreamApiError(
+      'Failed to search national protected areas by location. The data service may be temporarily unavailable — try again or use kommun/lan codes instead.',
+      0,
+      'naturvardsregistret/wfs',
+    );
+  }
 
-    return data.features.map((f) => ({
-      id: f.properties.NVRID,
-      name: f.properties.NAMN,
-      type: f.properties.SKYDDSTYP,
-      area_ha: f.properties.AREA_HA,
-      municipalities: f.properties.KOMMUN,
-      county: f.properties.LAN,
-    }));
+  return data;
+}
+
+async function fetchN2000Features(
+  bbox: Sweref99Bbox,
+  limit: number,
+  filters: AreaFilters = {},
+  offset = 0,
+): Promise<WfsFeatureCollection<WfsN2000Properties>> {
+  let data: WfsFeatureCollection<WfsN2000Properties>;
+  try {
+    data = await n2000Wfs.request<WfsFeatureCollection<WfsN2000Properties>>('', {
+      params: {
+        service: 'WFS',
+        version: '2.0.0',
+        request: 'GetFeature',
+        typeNames: 'N2000_WFS:N2000',
+        ...spatialParams(bbox, filters, N2000_FILTER_PROPERTIES),
+        ...pagingParams(limit, offset, 'OMRADESKOD'),
+        outputFormat: 'GEOJSON',
+      },
+      validate: (collection) => {
+        if (!collection.features || !Array.isArray(collection.features)) {
+          throw new UpstreamApiError(
+            'Natura 2000 search returned an unexpected response. Try again or use kommun/lan codes instead.',
+            0,
+            'n2000/wfs',
+          );
+        }
+        return collection;
+      },
+    });
+  } catch (error) {
+    if (error instanceof UpstreamApiError) throw error;
+    throw new UpstreamApiError(
+      'Failed to search Natura 2000 areas by location. The data service may be temporarily unavailable — try again or use kommun/lan codes instead.',
+      0,
+      'n2000/wfs',
+    );
+  }
+
+  return data;
+}
+
+export const wfsClient = {
+  /**
+   * Bbox search for national areas, optionally filtered upstream by type, IUCN category, size and decision date
+   * Pages with `offset` (WFS startIndex)
+   */
+  async searchNational(bbox: Sweref99Bbox, limit: number, filters: AreaFilters = {}, offset = 0): Promise<WfsBboxPage> {
+    const data = await fetchNationalFeatures(bbox, limit, filters, offset);
+    return { areas: data.features.map(toNationalArea), total: data.totalFeatures };
   },
 
-  async searchN2000(bbox: Sweref99Bbox, limit: number): Promise<WfsBboxArea[]> {
-    const bboxStr = buildBboxString(bbox);
-
-    let data: WfsFeatureCollection<WfsN2000Properties>;
-    try {
-      data = await n2000Wfs.request<WfsFeatureCollection<WfsN2000Properties>>('', {
-        params: {
-          service: 'WFS',
-          version: '2.0.0',
-          request: 'GetFeature',
-          typeNames: 'N2000_WFS:N2000',
-          bbox: bboxStr,
-          count: limit,
-          outputFormat: 'GEOJSON',
-        },
-      });
-    } catch (error) {
-      if (error instanceof UpstreamApiError) throw error;
-      throw new UpstreamApiError(
-        'Failed to search Natura 2000 areas by location. The data service may be temporarily unavailable — try again or use kommun/lan codes instead.',
-        0,
-        'n2000/wfs',
-      );
-    }
-
-    if (!data.features || !Array.isArray(data.features)) {
-      throw new UpstreamApiError(
-        'Natura 2000 search returned an unexpected response. Try again or use kommun/lan codes instead.',
-        0,
-        'n2000/wfs',
-      );
-    }
+  /**
+   * Bbox search for Natura 2000 areas, optionally filtered upstream by area type and size
+   * (the N2000 layer has no IUCN category or decision date). Pages with `offset` (WFS startIndex)
+   */
+  async searchN2000(bbox: Sweref99Bbox, limit: number, filters: AreaFilters = {}, offset = 0): Promise<WfsBboxPage> {
+    const data = await fetchN2000Features(bbox, limit, filters, offset);
+    return { areas: data.features.map(toN2000Area), total: data.totalFeatures };
+  },
 
+  /**
+   * Bbox search returning each area's polygon (SWEREF99TM) for client-side geometry tests
+   */
+  async searchNationalWithGeometry(bbox: Sweref99Bbox, limit: number): Promise<WfsBboxFeature[]> {
+    const data = await fetchNationalFeatures(bbox, limit);
     return data.features.map((f) => ({
-      id: f.properties.OMRADESKOD,
-      name: f.properties.OMRADESNAMN,
-      type: f.properties.OMRADESTYP,
-      area_ha: f.properties.AREA_HA,
-      municipalities: f.properties.KOMMUN,
-      county: f.properties.LAN,
+      ...toNationalArea(f),
+      geometry: toSwerefGeometry(f.geometry, 'naturvardsregistret/wfs'),
     }));
   },
+
+  async searchN2000WithGeometry(bbox: Sweref99Bbox, limit: number): Promise<WfsBboxFeature[]> {
+    const data = await fetchN2000Features(bbox, limit);
+    return data.features.map((f) => ({ ...toN2000Area(f), geometry: toSwerefGeometry(f.geometry, 'n2000/wfs') }));
+  },
 };
@@ -0,0 +1,78 @@
+/**
+ * Attribute filters for protected area search results
+ *
+ * Applied client-side to REST results. The WFS bbox path translates the same
+ * filters into an upstream filter (see wfs-client).
+ */
+
+import { ValidationError } from './errors';
+
+export interface AreaFilters {
+  type?: string; // National skyddstyp, N2000 area type or Ramsar protection type
+  iucnCategory?: string; // National areas only
+  minAreaHa?: number;
+  maxAreaHa?: number;
+  decidedAfter?: string; // YYYY-MM-DD, inclusive
+  decidedBefore?: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Filterable fields of one area, mapped from whatever the source calls them
+ */
+export interface FilterableFields {
+  type?: string;
+  iucn_category?: string;
+  area_ha?: number;
+  decision_date?: string | number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function hasAreaFilters(filters: AreaFilters): boolean {
+  return Object.values(filters).some((value) => value !== undefined && value !== '');
+}
+
+/**
+ * Validate filter values, throwing ValidationError for malformed input
+ */
+export function validateAreaFilters(filters: AreaFilters): void {
+  for (const field of ['decidedAfter', 'decidedBefore'] as const) {
+    const value = filters[field];
+    if (value !== undefined && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+      throw new ValidationError(`${field} must be a date in YYYY-MM-DD format (e.g., '2015-01-01')`, field);
+    }
+  }
+  if (filters.minAreaHa !== undefined && filters.maxAreaHa !== undefined && filters.minAreaHa > filters.maxAreaHa) {
+    throw new ValidationError('minAreaHa must not be greater than maxAreaHa', 'minAreaHa');
+  }
+}
+
+/**
+ * Parse an upstream decision date (ISO string, date string or epoch milliseconds)
+ */
+export function parseDecisionDate(value: string | number | undefined): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Test one area against the filters. Areas missing a filtered field do not match.
+ */
+export function matchesAreaFilters(fields: FilterableFields, filters: AreaFilters): boolean {
+  if (filters.type && fields.type?.toLowerCase() !== filters.type.toLowerCase()) return false;
+  if (filters.iucnCategory && fields.iucn_category?.toLowerCase() !== filters.iucnCategory.toLowerCase()) return false;
+
+  if (filters.minAreaHa !== undefined && !(fields.area_ha !== undefined && fields.area_ha >= filters.minAreaHa)) return false;
+  if (filters.maxAreaHa !== undefined && !(fields.area_ha !== undefined && fields.area_ha <= filters.maxAreaHa)) return false;
+
+  if (filters.decidedAfter || filters.decidedBefore) {
+    const decided = parseDecisionDate(fields.decision_date);
+    if (decided === null) return false;
+    if (filters.decidedAfter && decided < Date.parse(filters.decidedAfter)) return false;
+    // Inclusive end: anything before the start of the following day
+    if (filters.decidedBefore && decided >= Date.parse(filters.decidedBefore) + 24 * 60 * 60 * 1000) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,93 @@
+/**
+ * Summary metrics for an area's polygon: where it is and how big it is
+ *
+ * Input is SWEREF99TM. Lengths and areas are measured in a Lambert azimuthal
+ * equal-area projection on the GRS80 ellipsoid centred on the area, so the area is
+ * exact on the ellipsoid and the perimeter is within a few ppm for areas the size of
+ * a Swedish reserve. SWEREF99TM itself is conformal and overstates areas by up to
+ * ~0.1% away from its central meridian.
+ */
+
+import proj4 from 'proj4';
+import {
+  multiPolygonArea,
+  multiPolygonBoundingBox,
+  multiPolygonCentroid,
+  multiPolygonInteriorPoint,
+  lineLength,
+  type MultiPolygonCoords,
+  type Position,
+} from './geometry';
+import { sweref99ToWgs84, CRS_SWEREF99TM } from './coordinates';
+import type { BoundingBox } from './wkt-utils';
+
+/** Upstream area differing from the computed one by more than this is flagged as inconsistent */
+const AREA_CHECK_TOLERANCE_PCT = 2;
+
+const SQUARE_METRES_PER_HECTARE = 10_000;
+
+export interface AreaMetrics {
+  centroid: Position; // SWEREF99TM
+  interiorPoint: Position; // SWEREF99TM, always inside the polygon
+  bbox: BoundingBox; // SWEREF99TM
+  perimeterKm: number;
+  areaHa: number; // Ellipsoidal area
+}
+
+export interface AreaCheck {
+  upstream_ha: number;
+  computed_ha: number;
+  difference_pct: number;
+  consistent: boolean;
+}
+
+/**
+ * Compute centroid, interior point, bounding box, perimeter and ellipsoidal area
+ */
+export function computeAreaMetrics(polygons: MultiPolygonCoords): AreaMetrics {
+  const centroid = multiPolygonCentroid(polygons);
+  const projected = projectEqualArea(polygons, centroid);
+
+  return {
+    centroid,
+    interiorPoint: multiPolygonInteriorPoint(polygons),
+    bbox: multiPolygonBoundingBox(polygons),
+    perimeterKm: projected.flat().reduce((sum, ring) => sum + lineLength(ring), 0) / 1000,
+    areaHa: multiPolygonArea(projected) / SQUARE_METRES_PER_HECTARE,
+  };
+}
+
+/**
+ * Ellipsoidal area of a SWEREF99TM multipolygon in hectares
+ */
+export function ellipsoidalAreaHa(polygons: MultiPolygonCoords): number {
+  if (polygons.length === 0) return 0;
+  return multiPolygonArea(projectEqualArea(polygons, multiPolygonCentroid(polygons))) / SQUARE_METRES_PER_HECTARE;
+}
+
+/**
+ * Reproject to a GRS80 Lambert azimuthal equal-area projection centred on `center`
+ */
+function projectEqualArea(polygons: MultiPolygonCoords, [x, y]: Position): MultiPolygonCoords {
+  const center = sweref99ToWgs84({ x, y });
+  const equalArea =
+    `+proj=laea +lat_0=${center.latitude} +lon_0=${center.longitude} +x_0=0 +y_0=0 ` + '+ellps=GRS80 +units=m +no_defs';
+  const project = proj4(CRS_SWEREF99TM, equalArea);
+  return polygons.map((polygon) => polygon.map((ring) => ring.map((position) => project.forward(position))));
+}
+
+/**
+ * Compare the upstream area figure (must be positive) with the computed one
+ *
+ * Upstream figures can legitimately differ — e.g. a register area that excludes water —
+ * so an inconsistency is a hint to check, not an error.
+ */
+export function checkArea(upstreamHa: number, computedHa: number): AreaCheck {
+  const differencePct = ((computedHa - upstreamHa) / upstreamHa) * 100;
+  return {
+    upstream_ha: upstreamHa,
+    computed_ha: Math.round(computedHa * 100) / 100,
+    difference_pct: Math.round(differencePct * 100) / 100,
+    consistent: Math.abs(differencePct) <= AREA_CHECK_TOLERANCE_PCT,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Area geometry and combined extents from the REST APIs' WKT endpoints
+ *
+ * The national, Natura 2000 and Ramsar APIs share one layout: a WKT endpoint per area and
+ * extentAsWkt for several areas at once, both in SWEREF99TM. Every WKT is normalized before
+ * it is cached, so an Oracle error served as WKT fails the request instead of being kept.
+ */
+
+import { CancelledError } from './errors';
+import { runWithConcurrency, NVV_API_CONCURRENCY } from './concurrency';
+import { extractBoundingBoxFromWkt, combineBoundingBoxes, boundingBoxToWkt, normalizeUpstreamWkt } from './wkt-utils';
+import type { createHttpClient } from './http-client';
+
+type HttpClient = ReturnType<typeof createHttpClient>;
+
+/**
+ * WKT endpoints of one REST API
+ */
+export function createAreaWktApi(client: HttpClient, upstream: string, extentEndpoint: { path: string; idParam: string }) {
+  const validate = (wkt: string) => normalizeUpstreamWkt(wkt, upstream);
+
+  return {
+    /** One area's WKT as served upstream (SWEREF99TM) */
+    areaWkt: (path: string) => client.request<string>(path, { validate }),
+
+    /**
+     * Combined extent of `ids` from extentAsWkt, passed through `convert`
+     *
+     * extentAsWkt fails for some id lists (ORA-28579 as HTTP 500), so any failure but
+     * cancellation falls back to `fallback`. A cancelled call must not start the per-area fallback.
+     */
+    async extent(ids: string[], convert: (wkt: string) => string, fallback: () => Promise<string>): Promise<string> {
+      try {
+        const wkt = await client.request<string>(extentEndpoint.path, {
+          params: { [extentEndpoint.idParam]: ids.join(',') },
+          validate,
+        });
+        return convert(wkt);
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        return fallback();
+      }
+    },
+  };
+}
+
+/**
+ * Bounding box of several areas as a WKT POLYGON, in the CRS `getWkt` returns
+ */
+export async function combinedExtentWkt(ids: string[], getWkt: (id: string) => Promise<string>): Promise<string> {
+  const wkts = await runWithConcurrency(
+    ids.map((id) => () => getWkt(id)),
+    NVV_API_CONCURRENCY,
+  );
+  return boundingBoxToWkt(combineBoundingBoxes(wkts.map(extractBoundingBoxFromWkt)));
+}
@@ -0,0 +1,106 @@
+/**
+ * Cancellation of tool calls
+ *
+ * withErrorHandling runs each tool call with an abort signal that fires when the MCP
+ * client cancels the call or the call nears the platform's time limit. The signal is
+ * carried in async context, so every upstream request made on behalf of the call sees it
+ * without each client method taking a signal parameter. The call's deadline travels with
+ * it, so requests can fit their timeouts and retries into the time left.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { CancelledError } from './errors';
+
+/** Function time limit on the hosting platform, in seconds (maxDuration in the MCP route) */
+export const MAX_DURATION_S = 60;
+
+/** Tool calls are cancelled this long before the platform limit, leaving time to return partial results */
+const DEADLINE_MARGIN_MS = 5000;
+
+export const TOOL_DEADLINE_MS = MAX_DURATION_S * 1000 - DEADLINE_MARGIN_MS;
+
+const signalContext = new AsyncLocalStorage<{ signal: AbortSignal; deadline?: number }>();
+
+/**
+ * Run `fn` with `signal` as the cancellation signal for everything it calls
+ *
+ * `deadline` (epoch ms) is when `signal` aborts at the latest; by default the current one is kept.
+ */
+export function runWithSignal<R>(
+  signal: AbortSignal,
+  fn: () => Promise<R>,
+  deadline = signalContext.getStore()?.deadline,
+): Promise<R> {
+  return signalContext.run({ signal, deadline }, fn);
+}
+
+/**
+ * Run `fn` detached from the current call's cancellation
+ *
+ * For work shared between calls (process-wide catalogue loads) that must not fail for
+ * everyone when the call that started it is cancelled.
+ */
+export function detachFromCancellation<R>(fn: () => Promise<R>): Promise<R> {
+  return signalContext.exit(fn);
+}
+
+/**
+ * The cancellation signal of the current tool call, if any
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return signalContext.getStore()?.signal;
+}
+
+/**
+ * ms left before the current tool call's deadline, if it has one
+ */
+export function remainingTime(): number | undefined {
+  const deadline = signalContext.getStore()?.deadline;
+  return deadline === undefined ? undefined : Math.max(0, deadline - Date.now());
+}
+
+/**
+ * Error describing why `signal` was aborted
+ */
+export function cancelledError(signal: AbortSignal): CancelledError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof CancelledError) return reason;
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new CancelledError(
+      `The tool call ran out of time (${TOOL_DEADLINE_MS / 1000} s) before it finished. Request fewer areas or sections.`,
+    );
+  }
+  return new CancelledError();
+}
+
+/**
+ * Throw a CancelledError if the current call has been cancelled
+ */
+export function throwIfCancelled(signal = currentSignal()): void {
+  if (signal?.aborted) throw cancelledError(signal);
+}
+
+/**
+ * Wait for `promise`, but reject with a CancelledError as soon as `signal` aborts
+ */
+export function abortable<T>(promise: Promise<T>, signal = currentSignal()): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(cancelledError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(cancelledError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wait `ms`, rejecting with a CancelledError as soon as `signal` aborts
+ */
+export function sleep(ms: number, signal = currentSignal()): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const wait = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, ms);
+  });
+  return abortable(wait, signal).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,70 @@
+/**
+ * Circuit breaker for an upstream service
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and requests fail
+ * fast instead of each waiting for a timeout. Once `resetTimeout` has passed, one trial
+ * request is let through (half-open): success closes the circuit, failure opens it again.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failed requests that open the circuit (default 5)
+  resetTimeout?: number; // ms the circuit stays open before a trial request (default 30000)
+}
+
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}) {
+  const { failureThreshold = 5, resetTimeout = 30000 } = options;
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  function open() {
+    state = 'open';
+    openedAt = Date.now();
+    trialInFlight = false;
+  }
+
+  return {
+    state: (): CircuitState => state,
+
+    /**
+     * Whether a request may go out now. Moves an open circuit to half-open once
+     * resetTimeout has passed and claims its single trial request.
+     */
+    tryAcquire(): boolean {
+      if (state === 'open' && Date.now() - openedAt >= resetTimeout) {
+        state = 'half_open';
+        trialInFlight = false;
+      }
+      if (state === 'closed') return true;
+      if (state === 'half_open' && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    /** ms until an open circuit lets a trial request through */
+    remainingOpenTime: (): number => Math.max(0, openedAt + resetTimeout - Date.now()),
+
+    /** The upstream answered (even with a client error) */
+    recordSuccess(): void {
+      state = 'closed';
+      failures = 0;
+      trialInFlight = false;
+    },
+
+    /** A request was cancelled before the upstream answered: free the trial slot for another */
+    releaseTrial(): void {
+      trialInFlight = false;
+    },
+
+    /** A request failed, retries included: gateway error (502/503/504), timeout or no connection */
+    recordFailure(): void {
+      failures++;
+      if (state === 'half_open' || failures >= failureThreshold) open();
+    },
+  };
+}
@@ -1,17 +1,191 @@
+import { CancelledError } from './errors';
+import { runWithSignal, abortable, throwIfCancelled } from './cancellation';
+
 /**
  * Run async functions with limited concurrency to avoid overwhelming upstream APIs.
  *
- * Example: With 6 functions and concurrency of 2, runs 3 batches of 2 calls each.
+ * A sliding window: as soon as one call finishes the next starts, so a slow call only
+ * holds its own slot. Results are returned in input order.
+ *
+ * Example: With 6 functions and concurrency of 2, at most 2 calls are in flight at any time.
  */
 export async function runWithConcurrency<T>(fns: (() => Promise<T>)[], concurrency: number): Promise<T[]> {
-  const results: T[] = [];
-  for (let i = 0; i < fns.length; i += concurrency) {
-    const batch = fns.slice(i, i + concurrency);
-    const batchResults = await Promise.all(batch.map((fn) => fn()));
-    results.push(...batchResults);
+  const results: T[] = new Array(fns.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < fns.length) {
+      const index = next++;
+      results[index] = await fns[index]();
+    }
   }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, fns.length) }, worker));
   return results;
 }
 
-/** Max concurrent API calls to NVV to avoid rate limiting / 503 errors */
+type Flight<T> = {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiting: number; // Callers still waiting for the result
+};
+
+/**
+ * Coalesce concurrent calls with the same key into one (single-flight)
+ *
+ * While a call for a key is running, further calls for that key wait for it and get its
+ * result or error instead of starting their own. Nothing is kept once it settles.
+ *
+ * The shared call has its own cancellation signal: a caller that is cancelled stops
+ * waiting straight away, and the call itself is aborted only once every caller has left.
+ */
+export function createSingleFlight<T>() {
+  const inFlight = new Map<string, Flight<T>>();
+
+  return {
+    /** Run `fn`, or join the call already running for `key`; `shared` is true when joining */
+    async run(key: string, fn: () => Promise<T>): Promise<{ value: T; shared: boolean }> {
+      let flight = inFlight.get(key);
+      const shared = flight !== undefined;
+      if (!flight) {
+        const controller = new AbortController();
+        const promise = runWithSignal(controller.signal, fn).finally(() => inFlight.delete(key));
+        // Rejections reach the callers waiting; without any left, this keeps them from going unhandled
+        promise.catch(() => undefined);
+        flight = { promise, controller, waiting: 0 };
+        inFlight.set(key, flight);
+      }
+
+      const current = flight;
+      current.waiting++;
+      try {
+        return { value: await abortable(current.promise), shared };
+      } catch (error) {
+        if (error instanceof CancelledError && current.waiting === 1 && inFlight.get(key) === current) {
+          current.controller.abort(error);
+        }
+        throw error;
+      } finally {
+        current.waiting--;
+      }
+    },
+  };
+}
+
+/**
+ * Max concurrent calls within one tool call's fan-out (e.g. the sections of one area).
+ * Total load per upstream host is bounded separately by the host limiter.
+ */
 export const NVV_API_CONCURRENCY = 2;
+
+/** Max requests in flight per upstream host, across all clients and sessions. Override with NVV_HOST_CONCURRENCY. */
+const HOST_CONCURRENCY = Number(process.env.NVV_HOST_CONCURRENCY) || 4;
+
+/** Sustained requests per second per upstream host. Override with NVV_HOST_RATE_PER_SECOND. */
+const HOST_RATE_PER_SECOND = Number(process.env.NVV_HOST_RATE_PER_SECOND) || 10;
+
+/** Requests a host can take in a burst after being idle */
+const HOST_BURST = HOST_RATE_PER_SECOND;
+
+interface HostLimiter {
+  /** Run `fn` once a slot and a token are free; waiting stops with a CancelledError when `signal` aborts */
+  run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+/**
+ * Limit in-flight requests with a FIFO queue of waiting callers
+ */
+function createSemaphore(max: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  function release(): void {
+    const nextCaller = waiting.shift();
+    if (nextCaller) nextCaller();
+    else active--;
+  }
+
+  async function acquire(signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+    if (active < max) {
+      active++;
+      return;
+    }
+    // The releasing caller hands its slot over directly, so `active` stays unchanged
+    let handOver = () => {};
+    const turn = new Promise<void>((resolve) => {
+      handOver = resolve;
+      waiting.push(resolve);
+    });
+    try {
+      await abortable(turn, signal);
+    } catch (error) {
+      // Cancelled while queued: leave the queue, or pass on a slot handed over meanwhile
+      const index = waiting.indexOf(handOver);
+      if (index === -1) release();
+      else waiting.splice(index, 1);
+      throw error;
+    }
+  }
+
+  return { acquire, release };
+}
+
+/**
+ * Token bucket: `burst` requests at once, refilled at `ratePerSecond`. Callers get tokens in FIFO order.
+ */
+function createTokenBucket(ratePerSecond: number, burst: number) {
+  let tokens = burst;
+  let updatedAt = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  async function waitForToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      tokens = Math.min(burst, tokens + ((now - updatedAt) / 1000) * ratePerSecond);
+      updatedAt = now;
+      if (tokens >= 1) {
+        tokens--;
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, ((1 - tokens) / ratePerSecond) * 1000));
+    }
+  }
+
+  return {
+    take(): Promise<void> {
+      queue = queue.then(waitForToken);
+      return queue;
+    },
+  };
+}
+
+const hostLimiters = new Map<string, HostLimiter>();
+
+/**
+ * Shared limiter for every request to `host`
+ *
+ * All clients pointing at the same host (the REST APIs and WFS services all live on
+ * geodata.naturvardsverket.se) share one in-flight cap and one token bucket, so concurrent
+ * tool calls and MCP sessions in this process stay within a bounded load on it.
+ */
+export function limiterForHost(host: string): HostLimiter {
+  let limiter = hostLimiters.get(host);
+  if (!limiter) {
+    const slots = createSemaphore(HOST_CONCURRENCY);
+    const bucket = createTokenBucket(HOST_RATE_PER_SECOND, HOST_BURST);
+    limiter = {
+      async run(fn, signal) {
+        await slots.acquire(signal);
+        try {
+          await abortable(bucket.take(), signal);
+          return await fn();
+        } finally {
+          slots.release();
+        }
+      },
+    };
+    hostLimiters.set(host, limiter);
+  }
+  return limiter;
+}
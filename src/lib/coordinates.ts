@@ -13,6 +13,52 @@ export const CRS_WGS84 = 'EPSG:4326';
  */
 proj4.defs('EPSG:3006', '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
 
+/**
+ * SWEREF99 local projection zones (EPSG:3007-3018): transverse Mercator, scale 1, false easting 150 km.
+ * Keyed by EPSG code, with the zone's name and central meridian.
+ */
+const SWEREF99_LOCAL_ZONES = {
+  'EPSG:3007': { name: 'SWEREF99 12 00', meridian: 12 },
+  'EPSG:3008': { name: 'SWEREF99 13 30', meridian: 13.5 },
+  'EPSG:3009': { name: 'SWEREF99 15 00', meridian: 15 },
+  'EPSG:3010': { name: 'SWEREF99 16 30', meridian: 16.5 },
+  'EPSG:3011': { name: 'SWEREF99 18 00', meridian: 18 },
+  'EPSG:3012': { name: 'SWEREF99 14 15', meridian: 14.25 },
+  'EPSG:3013': { name: 'SWEREF99 15 45', meridian: 15.75 },
+  'EPSG:3014': { name: 'SWEREF99 17 15', meridian: 17.25 },
+  'EPSG:3015': { name: 'SWEREF99 18 45', meridian: 18.75 },
+  'EPSG:3016': { name: 'SWEREF99 20 15', meridian: 20.25 },
+  'EPSG:3017': { name: 'SWEREF99 21 45', meridian: 21.75 },
+  'EPSG:3018': { name: 'SWEREF99 23 15', meridian: 23.25 },
+} as const;
+
+for (const [code, zone] of Object.entries(SWEREF99_LOCAL_ZONES)) {
+  proj4.defs(
+    code,
+    `+proj=tmerc +lat_0=0 +lon_0=${zone.meridian} +k=1 +x_0=150000 +y_0=0 +ellps=GRS80 ` +
+      '+towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs',
+  );
+}
+
+/**
+ * Coordinate systems geometry can be returned in
+ */
+export const OUTPUT_CRS = [
+  'EPSG:4326',
+  'EPSG:3006',
+  ...(Object.keys(SWEREF99_LOCAL_ZONES) as (keyof typeof SWEREF99_LOCAL_ZONES)[]),
+] as const;
+export type OutputCrs = (typeof OUTPUT_CRS)[number];
+
+/**
+ * Human-readable coordinate_system label, e.g. 'EPSG:3006 (SWEREF99 TM)'
+ */
+export function crsLabel(crs: OutputCrs): string {
+  if (crs === CRS_WGS84) return 'EPSG:4326 (WGS84)';
+  if (crs === CRS_SWEREF99TM) return 'EPSG:3006 (SWEREF99 TM)';
+  return `${crs} (${SWEREF99_LOCAL_ZONES[crs].name})`;
+}
+
 /**
  * Point in SWEREF99TM coordinates
  */
@@ -72,6 +118,14 @@ export function sweref99ToWgs84(point: Sweref99Point): Wgs84Point {
   };
 }
 
+/**
+ * Project a SWEREF99TM [x, y] position to a SWEREF99 local zone, same [easting, northing] order
+ */
+export function sweref99ToLocalZone([x, y]: [number, number], crs: OutputCrs): [number, number] {
+  const [easting, northing] = proj4(CRS_SWEREF99TM, crs, [x, y]);
+  return [easting, northing];
+}
+
 export function wgs84ToSweref99(point: Wgs84Point): Sweref99Point {
   if (!isValidWgs84Coordinate(point.latitude, point.longitude)) {
     throw new ValidationError(
@@ -118,3 +172,28 @@ export function wgs84BboxToSweref99(bbox: Wgs84Bbox): Sweref99Bbox {
     maxY: maxCorner.y,
   };
 }
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+/**
+ * Initial great-circle bearing between two WGS84 points, in degrees clockwise from true north (0-360)
+ *
+ * Computed on WGS84 rather than the SWEREF99TM grid, whose north deviates up to ~8° from true north in northern Sweden.
+ */
+export function trueBearing(from: Wgs84Point, to: Wgs84Point): number {
+  const toRad = Math.PI / 180;
+  const lat1 = from.latitude * toRad;
+  const lat2 = to.latitude * toRad;
+  const dLon = (to.longitude - from.longitude) * toRad;
+
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) / toRad + 360) % 360;
+}
+
+/**
+ * 8-point compass direction for a bearing in degrees
+ */
+export function compassDirection(bearing: number): (typeof COMPASS_POINTS)[number] {
+  return COMPASS_POINTS[Math.round(bearing / 45) % 8];
+}
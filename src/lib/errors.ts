@@ -47,3 +47,13 @@ export class ValidationError extends McpToolError {
     this.name = 'ValidationError';
   }
 }
+
+/**
+ * Error for a tool call cancelled by the client or stopped at its time limit
+ */
+export class CancelledError extends McpToolError {
+  constructor(message = 'The request was cancelled before it finished.') {
+    super(message, 'CANCELLED');
+    this.name = 'CancelledError';
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * GeoJSON (RFC 7946) output for area geometries
+ *
+ * RFC 7946 follows the right-hand rule: exterior rings counter-clockwise, holes
+ * clockwise. Upstream WKT rings come in either orientation, so every ring is
+ * reoriented on output. Coordinates are passed through as given — callers convert
+ * to WGS84 lon/lat first, as RFC 7946 requires.
+ */
+
+import { parseWkt, type Geometry, type Ring, type MultiPolygonCoords } from './geometry-model';
+import { CRS_WGS84 } from './coordinates';
+import { ValidationError } from './errors';
+
+/** The geometry model is GeoJSON-shaped, so parsed geometries serialize as-is */
+export type GeoJsonGeometry = Geometry;
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+export const OUTPUT_FORMATS = ['wkt', 'geojson'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Reject GeoJSON output in any CRS but WGS84, which RFC 7946 mandates
+ */
+export function validateOutputCrs(format: OutputFormat | undefined, crs: string | undefined): void {
+  if (format === 'geojson' && crs !== undefined && crs !== CRS_WGS84) {
+    throw new ValidationError(
+      `outputFormat='geojson' is always WGS84 (RFC 7946) — drop outputCrs '${crs}' or use outputFormat='wkt'`,
+      'outputCrs',
+    );
+  }
+}
+
+/**
+ * Shoelace sum: positive for counter-clockwise rings (x right, y up)
+ */
+function signedRingArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+}
+
+function orientRing(ring: Ring, counterClockwise: boolean): Ring {
+  return signedRingArea(ring) > 0 === counterClockwise ? ring : [...ring].reverse();
+}
+
+/**
+ * Reorient rings to the RFC 7946 right-hand rule
+ */
+export function orientRightHand(polygons: MultiPolygonCoords): MultiPolygonCoords {
+  return polygons.map(([shell, ...holes]) => [orientRing(shell, true), ...holes.map((hole) => orientRing(hole, false))]);
+}
+
+/**
+ * Reorient the polygons of a geometry (and of collection members) to the right-hand rule
+ */
+function orientGeometry(geometry: Geometry): Geometry {
+  switch (geometry.type) {
+    case 'Polygon':
+      if (geometry.coordinates.length === 0) return geometry;
+      return { type: 'Polygon', coordinates: orientRightHand([geometry.coordinates])[0] };
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: orientRightHand(geometry.coordinates) };
+    case 'GeometryCollection':
+      return { type: 'GeometryCollection', geometries: geometry.geometries.map(orientGeometry) };
+    default:
+      return geometry;
+  }
+}
+
+/**
+ * Convert WKT to a GeoJSON geometry, keeping the WKT type
+ */
+export function wktToGeoJsonGeometry(wkt: string): GeoJsonGeometry {
+  return orientGeometry(parseWkt(wkt));
+}
+
+export function wktToFeature(wkt: string, properties: Record<string, unknown>): GeoJsonFeature {
+  return { type: 'Feature', geometry: wktToGeoJsonGeometry(wkt), properties };
+}
+
+export function toFeatureCollection(features: GeoJsonFeature[]): GeoJsonFeatureCollection {
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,355 @@
+/**
+ * Typed geometry model with WKT, EWKT and GeoJSON parsing and serialization
+ *
+ * Geometries are GeoJSON-shaped objects, so a parsed WKT can be returned as GeoJSON
+ * as-is. The model is 2D: Z and M ordinates are accepted on input and dropped, since
+ * every analysis here is planar. EMPTY geometries have empty coordinate arrays.
+ *
+ * Parse functions throw plain Errors describing what is wrong and where. Callers turn
+ * them into a ValidationError (user input) or an UpstreamApiError (upstream data).
+ */
+
+import type { BoundingBox } from './wkt-utils';
+
+export type Position = [number, number];
+export type Ring = Position[];
+export type PolygonCoords = Ring[]; // First ring is the shell, the rest are holes
+export type MultiPolygonCoords = PolygonCoords[];
+export type LineCoords = Position[];
+export type MultiLineCoords = LineCoords[];
+
+export type Geometry =
+  | { type: 'Point'; coordinates: Position | [] }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: LineCoords }
+  | { type: 'MultiLineString'; coordinates: MultiLineCoords }
+  | { type: 'Polygon'; coordinates: PolygonCoords }
+  | { type: 'MultiPolygon'; coordinates: MultiPolygonCoords }
+  | { type: 'GeometryCollection'; geometries: Geometry[] };
+
+export type GeometryType = Geometry['type'];
+
+const WKT_TYPES: Record<string, GeometryType> = {
+  POINT: 'Point',
+  MULTIPOINT: 'MultiPoint',
+  LINESTRING: 'LineString',
+  MULTILINESTRING: 'MultiLineString',
+  POLYGON: 'Polygon',
+  MULTIPOLYGON: 'MultiPolygon',
+  GEOMETRYCOLLECTION: 'GeometryCollection',
+};
+
+type Token = { kind: 'word' | 'number' | '(' | ')' | ','; text: string; offset: number };
+
+// Words, numbers (optional sign, no leading digit as in .5, exponent as in 1e-7), punctuation; anything else is an error
+const TOKEN_PATTERN = /([A-Za-z]+)|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)|([(),])|(\S)/g;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const [, word, number, punctuation, unexpected] = match;
+    if (unexpected) {
+      throw new Error(`Invalid WKT at character ${match.index}: unexpected '${text.slice(match.index, match.index + 10)}'`);
+    }
+    if (word) tokens.push({ kind: 'word', text: word.toUpperCase(), offset: match.index });
+    else if (number) tokens.push({ kind: 'number', text: number, offset: match.index });
+    else tokens.push({ kind: punctuation as Token['kind'], text: punctuation, offset: match.index });
+  }
+  return tokens;
+}
+
+/**
+ * Parse WKT or EWKT text. EWKT's SRID prefix is returned separately.
+ */
+export function parseEwkt(text: string): { geometry: Geometry; srid?: number } {
+  const sridMatch = text.match(/^\s*SRID\s*=\s*(\d+)\s*;/i);
+  const body = sridMatch ? text.slice(sridMatch[0].length) : text;
+  const tokens = tokenize(body);
+  let pos = 0;
+
+  const describe = (token: Token | undefined) => (token ? `'${token.text}' at character ${token.offset}` : 'end of input');
+  const fail = (expected: string): never => {
+    throw new Error(`Invalid WKT: expected ${expected}, got ${describe(tokens[pos])}`);
+  };
+  const peek = (kind: Token['kind'], text?: string) =>
+    tokens[pos]?.kind === kind && (text === undefined || tokens[pos].text === text);
+  const expect = (kind: Token['kind']) => {
+    if (!peek(kind)) fail(`'${kind}'`);
+    pos++;
+  };
+
+  // Ordinates per position, once known: fixed by a Z/M/ZM tag, else by the first position
+  let dimensions: number | undefined;
+
+  function position(): Position {
+    const ordinates: number[] = [];
+    while (peek('number')) ordinates.push(Number(tokens[pos++].text));
+    if (ordinates.length < 2 || ordinates.length > 4) fail('a position of 2-4 numbers');
+    dimensions ??= ordinates.length;
+    if (ordinates.length !== dimensions) {
+      throw new Error(
+        `Invalid WKT: position at character ${tokens[pos - 1].offset} has ${ordinates.length} ordinates, expected ${dimensions}`,
+      );
+    }
+    return [ordinates[0], ordinates[1]];
+  }
+
+  // '(' item (',' item)* ')', or EMPTY
+  function list<T>(item: () => T): T[] {
+    if (peek('word', 'EMPTY')) {
+      pos++;
+      return [];
+    }
+    expect('(');
+    const items = [item()];
+    while (peek(',')) {
+      pos++;
+      items.push(item());
+    }
+    expect(')');
+    return items;
+  }
+
+  // MULTIPOINT accepts both (1 2, 3 4) and ((1 2), (3 4))
+  function multiPointMember(): Position | null {
+    if (peek('word', 'EMPTY')) {
+      pos++;
+      return null;
+    }
+    if (!peek('(')) return position();
+    pos++;
+    const point = position();
+    expect(')');
+    return point;
+  }
+
+  function geometry(): Geometry {
+    if (!peek('word')) fail('a geometry type');
+    const word = tokens[pos++].text;
+    const typeMatch = word.match(/^(.*?)(ZM|Z|M)?$/);
+    const type = WKT_TYPES[word] ?? WKT_TYPES[typeMatch?.[1] ?? ''];
+    if (!type) throw new Error(`Invalid WKT: unsupported geometry type '${word}'`);
+
+    let tag = WKT_TYPES[word] ? undefined : typeMatch?.[2];
+    if (!tag && peek('word') && ['Z', 'M', 'ZM'].includes(tokens[pos].text)) tag = tokens[pos++].text;
+    if (tag && type !== 'GeometryCollection') dimensions = tag === 'ZM' ? 4 : 3;
+
+    switch (type) {
+      case 'Point': {
+        const coordinates = list(position);
+        return { type, coordinates: coordinates[0] ?? [] };
+      }
+      case 'MultiPoint':
+        return { type, coordinates: list(multiPointMember).filter((point): point is Position => point !== null) };
+      case 'LineString':
+        return { type, coordinates: list(position) };
+      case 'MultiLineString':
+        return { type, coordinates: list(() => list(position)).filter((line) => line.length > 0) };
+      case 'Polygon':
+        return { type, coordinates: list(() => list(position)) };
+      case 'MultiPolygon':
+        return { type, coordinates: list(() => list(() => list(position))).filter((polygon) => polygon.length > 0) };
+      case 'GeometryCollection':
+        return {
+          type,
+          geometries: list(() => {
+            dimensions = undefined;
+            return geometry();
+          }),
+        };
+    }
+  }
+
+  const parsed = geometry();
+  if (pos < tokens.length) fail('end of input');
+  return { geometry: parsed, ...(sridMatch && { srid: Number(sridMatch[1]) }) };
+}
+
+export function parseWkt(text: string): Geometry {
+  return parseEwkt(text).geometry;
+}
+
+/**
+ * Plain decimal notation — WKT readers differ in exponent support
+ */
+function formatNumber(value: number): string {
+  const text = String(value);
+  return /e/i.test(text) ? value.toFixed(20).replace(/\.?0+$/, '') : text;
+}
+
+function formatList<T>(items: T[], format: (item: T) => string): string {
+  return items.length === 0 ? 'EMPTY' : `(${items.map(format).join(', ')})`;
+}
+
+const formatPosition = ([x, y]: Position) => `${formatNumber(x)} ${formatNumber(y)}`;
+const formatPath = (path: Position[]) => formatList(path, formatPosition);
+const formatRings = (rings: Ring[]) => formatList(rings, formatPath);
+
+export function formatWkt(geometry: Geometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `POINT ${geometry.coordinates.length === 0 ? 'EMPTY' : `(${formatPosition(geometry.coordinates as Position)})`}`;
+    case 'MultiPoint':
+      return `MULTIPOINT ${formatList(geometry.coordinates, (point) => `(${formatPosition(point)})`)}`;
+    case 'LineString':
+      return `LINESTRING ${formatPath(geometry.coordinates)}`;
+    case 'MultiLineString':
+      return `MULTILINESTRING ${formatList(geometry.coordinates, formatPath)}`;
+    case 'Polygon':
+      return `POLYGON ${formatRings(geometry.coordinates)}`;
+    case 'MultiPolygon':
+      return `MULTIPOLYGON ${formatList(geometry.coordinates, formatRings)}`;
+    case 'GeometryCollection':
+      return `GEOMETRYCOLLECTION ${formatList(geometry.geometries, formatWkt)}`;
+  }
+}
+
+export function formatEwkt(geometry: Geometry, srid: number): string {
+  return `SRID=${srid};${formatWkt(geometry)}`;
+}
+
+function parseGeoJsonPosition(value: unknown): Position {
+  if (!Array.isArray(value) || value.length < 2 || !value.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+    throw new Error(`Invalid GeoJSON position: ${JSON.stringify(value)?.slice(0, 40)}`);
+  }
+  return [value[0], value[1]];
+}
+
+function parseGeoJsonArray<T>(value: unknown, item: (value: unknown) => T): T[] {
+  if (!Array.isArray(value))
+    throw new Error(`Invalid GeoJSON coordinates: expected an array, got ${JSON.stringify(value)?.slice(0, 40)}`);
+  return value.map(item);
+}
+
+/**
+ * Parse and check a GeoJSON geometry object (not a Feature — see geoJsonToShape)
+ */
+export function parseGeoJsonGeometry(value: unknown): Geometry {
+  const obj = value as { type?: unknown; coordinates?: unknown; geometries?: unknown } | null;
+  const paths = (coordinates: unknown) =>
+    parseGeoJsonArray(coordinates, (path) => parseGeoJsonArray(path, parseGeoJsonPosition));
+
+  switch (obj?.type) {
+    case 'Point': {
+      const empty = Array.isArray(obj.coordinates) && obj.coordinates.length === 0;
+      return { type: 'Point', coordinates: empty ? [] : parseGeoJsonPosition(obj.coordinates) };
+    }
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: parseGeoJsonArray(obj.coordinates, parseGeoJsonPosition) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: parseGeoJsonArray(obj.coordinates, parseGeoJsonPosition) };
+    case 'MultiLineString':
+      return { type: 'MultiLineString', coordinates: paths(obj.coordinates) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: paths(obj.coordinates) };
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: parseGeoJsonArray(obj.coordinates, paths) };
+    case 'GeometryCollection':
+      return { type: 'GeometryCollection', geometries: parseGeoJsonArray(obj.geometries, parseGeoJsonGeometry) };
+    default:
+      throw new Error(`Unsupported GeoJSON geometry type: ${String(obj?.type ?? 'missing type')}`);
+  }
+}
+
+/**
+ * Every position of a geometry, in order
+ */
+export function geometryPositions(geometry: Geometry): Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates.length === 0 ? [] : [geometry.coordinates as Position];
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flat();
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geometryPositions);
+  }
+}
+
+/**
+ * Apply a transform (e.g. reprojection) to every position, keeping the structure
+ */
+export function mapPositions(geometry: Geometry, fn: (position: Position) => Position): Geometry {
+  const path = (positions: Position[]) => positions.map(fn);
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: geometry.coordinates.length === 0 ? [] : fn(geometry.coordinates as Position) };
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: path(geometry.coordinates) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: path(geometry.coordinates) };
+    case 'MultiLineString':
+      return { type: 'MultiLineString', coordinates: geometry.coordinates.map(path) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: geometry.coordinates.map(path) };
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: geometry.coordinates.map((polygon) => polygon.map(path)) };
+    case 'GeometryCollection':
+      return { type: 'GeometryCollection', geometries: geometry.geometries.map((member) => mapPositions(member, fn)) };
+  }
+}
+
+/**
+ * Bounding box of every position; throws for an empty geometry
+ */
+export function geometryBoundingBox(geometry: Geometry): BoundingBox {
+  const positions = geometryPositions(geometry);
+  if (positions.length === 0) throw new Error('Geometry is empty — no coordinates to bound');
+
+  const box = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+  for (const [x, y] of positions) {
+    box.minX = Math.min(box.minX, x);
+    box.maxX = Math.max(box.maxX, x);
+    box.minY = Math.min(box.minY, y);
+    box.maxY = Math.max(box.maxY, y);
+  }
+  return box;
+}
+
+/**
+ * Polygons of a Polygon, MultiPolygon or collection of them (empty parts dropped)
+ */
+export function toMultiPolygon(geometry: Geometry): MultiPolygonCoords {
+  switch (geometry.type) {
+    case 'Polygon':
+      return geometry.coordinates.length > 0 ? [geometry.coordinates] : [];
+    case 'MultiPolygon':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(toMultiPolygon);
+    default:
+      throw new Error(`Expected a polygon geometry, got ${geometry.type}`);
+  }
+}
+
+/**
+ * Lines of a LineString, MultiLineString or collection of them (empty parts dropped)
+ */
+export function toMultiLine(geometry: Geometry): MultiLineCoords {
+  switch (geometry.type) {
+    case 'LineString':
+      return geometry.coordinates.length > 0 ? [geometry.coordinates] : [];
+    case 'MultiLineString':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(toMultiLine);
+    default:
+      throw new Error(`Expected a line geometry, got ${geometry.type}`);
+  }
+}
+
+/**
+ * Polygon geometry for a multipolygon: Polygon for one part, else MultiPolygon
+ */
+export function polygonGeometry(polygons: MultiPolygonCoords): Geometry {
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
@@ -4,30 +4,97 @@
  * Reduces coordinate count by 90-96% while preserving shape.
  * Large nature reserves can have 3,000-6,000+ coordinates — this
  * brings them down to ~100-400 points, saving ~20-40K LLM tokens.
+ *
+ * Rings are simplified independently, which can make them cross each other or
+ * themselves. Simplified polygons are validated and repaired before they are returned.
  */
 
+import { validateMultiPolygon, repairMultiPolygon, type ValidityIssue } from './geometry';
+import {
+  parseWkt,
+  formatWkt,
+  geometryPositions,
+  geometryBoundingBox,
+  polygonGeometry,
+  type Geometry,
+  type MultiPolygonCoords,
+  type Ring,
+} from './geometry-model';
+
 const DEFAULT_TOLERANCE = 0.001; // ~100m at Swedish latitudes
 
+/** Tolerance for projected (metre) coordinates, matching DEFAULT_TOLERANCE */
+export const METRIC_TOLERANCE = 100;
+
+/** Binary search steps when fitting a point budget — tolerance converges to ~1e-12 of the geometry's extent */
+const BUDGET_SEARCH_STEPS = 40;
+
+/** Further budget searches, each with a tighter target, when a repair pushes the result over budget */
+const REPAIR_BUDGET_RETRIES = 3;
+
+/**
+ * Number of coordinates in a WKT string
+ */
+export function countWktPoints(wkt: string): number {
+  return geometryPositions(parseWkt(wkt)).length;
+}
+
+export interface SimplifyResult {
+  wkt: string;
+  originalPoints: number;
+  returnedPoints: number;
+  maxDeviation: number; // Largest distance from a dropped point to the simplified outline, in coordinate units
+  repairs: ValidityIssue[]; // Validity problems found in the simplified geometry and fixed (empty if none)
+  overBudget?: boolean; // A point budget was set and could not be met
+}
+
+type Simplified = {
+  geometry: Geometry;
+  originalPoints: number;
+  returnedPoints: number;
+  maxDeviation: number;
+};
+
 /**
- * Simplify a WKT geometry string (POLYGON or MULTIPOLYGON)
+ * Simplify a WKT geometry string
  *
- * Finds innermost parenthesized coordinate groups, simplifies each ring
- * independently via Douglas-Peucker, and reconstructs the WKT string.
+ * Simplifies each polygon ring independently via Douglas-Peucker. Points and lines
+ * are returned unchanged.
  *
  * Rings that would shrink below 4 points (minimum valid polygon) are
  * kept unsimplified.
  */
 export function simplifyWkt(wkt: string, tolerance: number = DEFAULT_TOLERANCE): string {
-  // Match innermost parenthesized groups containing coordinate data
-  // These are the actual coordinate rings — outer parens are structural
-  return wkt.replace(/\(([^()]+)\)/g, (_match, coordString: string) => {
-    const coords = parseCoordRing(coordString);
-    if (coords.length < 4) return `(${coordString})`;
+  return simplifyWktWithStats(wkt, tolerance).wkt;
+}
+
+/**
+ * Simplify a WKT geometry, reporting point counts and the actual maximum deviation
+ */
+export function simplifyWktWithStats(wkt: string, tolerance: number = DEFAULT_TOLERANCE): SimplifyResult {
+  const geometry = parseWkt(wkt);
+  return ensureValid(simplifyRings(geometry, tolerance, false), geometry, wkt);
+}
+
+/**
+ * Simplify every polygon ring of a geometry
+ *
+ * With `minimalRings`, rings that would collapse keep their 4 most significant points
+ * instead of all of them, so the point count only ever shrinks as tolerance grows.
+ */
+function simplifyRings(geometry: Geometry, tolerance: number, minimalRings: boolean): Simplified {
+  let maxDeviation = 0;
 
-    const simplified = simplifyPath(coords, tolerance);
+  const simplifyRing = (coords: Ring): Ring => {
+    let simplified = coords.length < 4 ? coords : simplifyPath(coords, tolerance);
+    if (simplified.length < 4 && minimalRings && coords.length >= 4) {
+      simplified = minimalRing(coords);
+    }
 
     // Valid polygon ring needs minimum 4 points (3 unique + closing)
-    if (simplified.length < 4) return `(${coordString})`;
+    if (simplified.length < 4) return coords;
+
+    maxDeviation = Math.max(maxDeviation, pathDeviation(coords, simplified));
 
     // Ensure ring is closed (first == last)
     const first = simplified[0];
@@ -35,27 +102,182 @@ export function simplifyWkt(wkt: string, tolerance: number = DEFAULT_TOLERANCE):
     if (first[0] !== last[0] || first[1] !== last[1]) {
       simplified.push([...first] as [number, number]);
     }
+    return simplified;
+  };
+
+  const walk = (member: Geometry): Geometry => {
+    switch (member.type) {
+      case 'Polygon':
+        return { type: 'Polygon', coordinates: member.coordinates.map(simplifyRing) };
+      case 'MultiPolygon':
+        return { type: 'MultiPolygon', coordinates: member.coordinates.map((polygon) => polygon.map(simplifyRing)) };
+      case 'GeometryCollection':
+        return { type: 'GeometryCollection', geometries: member.geometries.map(walk) };
+      default:
+        return member;
+    }
+  };
+
+  const simplified = walk(geometry);
+  return {
+    geometry: simplified,
+    originalPoints: geometryPositions(geometry).length,
+    returnedPoints: geometryPositions(simplified).length,
+    maxDeviation,
+  };
+}
+
+/**
+ * Simplify a WKT geometry to at most `maxPoints` coordinates
+ *
+ * Binary-searches the smallest Douglas-Peucker tolerance that fits the budget, so the
+ * shape keeps as much detail as the budget allows. Geometries already within budget are
+ * returned as-is. The budget can be unreachable when there are many small rings (each
+ * keeps at least 4 points) — the most simplified result is returned then, with `overBudget`.
+ *
+ * Repairing a simplified geometry can add points. When that breaks the budget, the search
+ * is rerun with the target lowered by the excess.
+ */
+export function simplifyWktToPointBudget(wkt: string, maxPoints: number): SimplifyResult {
+  const geometry = parseWkt(wkt);
+  const pointCount = geometryPositions(geometry).length;
+  if (pointCount <= maxPoints) {
+    return { wkt, originalPoints: pointCount, returnedPoints: pointCount, maxDeviation: 0, repairs: [] };
+  }
+
+  let target = maxPoints;
+  let result = ensureValid(fitPointBudget(geometry, target), geometry, wkt);
+  for (
+    let retry = 0;
+    retry < REPAIR_BUDGET_RETRIES && result.repairs.length > 0 && result.returnedPoints > maxPoints;
+    retry++
+  ) {
+    target -= result.returnedPoints - maxPoints;
+    if (target < 4) break;
+    result = ensureValid(fitPointBudget(geometry, target), geometry, wkt);
+  }
+  return { ...result, ...(result.returnedPoints > maxPoints && { overBudget: true }) };
+}
+
+/**
+ * Binary-search the smallest tolerance that brings `geometry` to at most `maxPoints`
+ */
+function fitPointBudget(geometry: Geometry, maxPoints: number): Simplified {
+  // No point can deviate more than the geometry's extent, so that tolerance simplifies fully
+  const { minX, minY, maxX, maxY } = geometryBoundingBox(geometry);
+  let low = 0;
+  let high = Math.hypot(maxX - minX, maxY - minY);
+  let best = simplifyRings(geometry, high, true);
+
+  for (let step = 0; step < BUDGET_SEARCH_STEPS && best.returnedPoints <= maxPoints; step++) {
+    const tolerance = (low + high) / 2;
+    const result = simplifyRings(geometry, tolerance, true);
+    if (result.returnedPoints <= maxPoints) {
+      high = tolerance;
+      best = result;
+    } else {
+      low = tolerance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Validate a simplified polygon and repair it if simplification broke it
+ *
+ * Only simplified output is checked — an unchanged geometry is upstream's as-is. If
+ * repair leaves nothing (every ring collapsed), the original geometry is returned. The
+ * point count and deviation of a repaired geometry are measured on the repaired result.
+ */
+function ensureValid(result: Simplified, original: Geometry, originalWkt: string): SimplifyResult {
+  const { geometry, ...stats } = result;
+  const isPolygon = geometry.type === 'Polygon' || geometry.type === 'MultiPolygon';
+  if (stats.returnedPoints === stats.originalPoints || !isPolygon) {
+    return { ...stats, wkt: stats.returnedPoints === stats.originalPoints ? originalWkt : formatWkt(geometry), repairs: [] };
+  }
+
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const repairs = validateMultiPolygon(polygons);
+  if (repairs.length === 0) return { ...stats, wkt: formatWkt(geometry), repairs };
+
+  const repaired = repairMultiPolygon(polygons);
+  if (repaired.length === 0) {
+    return { ...stats, wkt: originalWkt, returnedPoints: stats.originalPoints, maxDeviation: 0, repairs };
+  }
+  const repairedGeometry = polygonGeometry(repaired);
+  return {
+    ...stats,
+    wkt: formatWkt(repairedGeometry),
+    returnedPoints: geometryPositions(repairedGeometry).length,
+    maxDeviation: outlineDeviation(original, repaired),
+    repairs,
+  };
+}
+
+/**
+ * Largest distance from a point of the original outline to the nearest edge of `outline`
+ *
+ * Used after a repair, where the result is no longer a subsequence of the original rings.
+ */
+function outlineDeviation(original: Geometry, outline: MultiPolygonCoords): number {
+  const edges = outline.flatMap((polygon) => polygon.flatMap((ring) => ring.slice(1).map((end, i) => [ring[i], end])));
+  let max = 0;
+  for (const point of geometryPositions(original)) {
+    let nearest = Infinity;
+    for (const [start, end] of edges) {
+      nearest = Math.min(nearest, segmentDistance(point, start, end));
+      if (nearest <= max) break;
+    }
+    max = Math.max(max, nearest);
+  }
+  return max;
+}
+
+/**
+ * Smallest valid ring: the first point, the point farthest from it, the point farthest
+ * from the line between those two, and the closing point
+ */
+function minimalRing(coords: [number, number][]): [number, number][] {
+  const first = coords[0];
+  const last = coords.length - 1;
+  let far = 1;
+  for (let i = 2; i < last; i++) {
+    if (segmentDistance(coords[i], first, first) > segmentDistance(coords[far], first, first)) far = i;
+  }
+  let wide = far === 1 ? 2 : 1;
+  for (let i = 1; i < last; i++) {
+    if (i !== far && segmentDistance(coords[i], first, coords[far]) > segmentDistance(coords[wide], first, coords[far])) {
+      wide = i;
+    }
+  }
+  return [first, coords[Math.min(far, wide)], coords[Math.max(far, wide)], coords[last]];
+}
 
-    return `(${simplified.map(([x, y]) => `${x} ${y}`).join(', ')})`;
-  });
+/**
+ * Largest distance from a dropped point to the simplified segment that replaced it
+ *
+ * `simplified` must be a subsequence of `coords` (same array references), as produced by simplifyPath.
+ */
+function pathDeviation(coords: [number, number][], simplified: [number, number][]): number {
+  let max = 0;
+  let next = 0;
+  for (const point of coords) {
+    if (point === simplified[next]) {
+      next++;
+    } else {
+      max = Math.max(max, segmentDistance(point, simplified[next - 1], simplified[next]));
+    }
+  }
+  return max;
 }
 
 /**
- * Parse a WKT coordinate ring string into [x, y] pairs
- * Input: "18.123 59.456, 18.789 59.012, ..."
+ * Distance from a point to a line segment (not the infinite line)
  */
-function parseCoordRing(coordString: string): [number, number][] {
-  return coordString
-    .split(',')
-    .map((pair) => {
-      const parts = pair.trim().split(/\s+/);
-      if (parts.length < 2) return null;
-      const x = parseFloat(parts[0]);
-      const y = parseFloat(parts[1]);
-      if (isNaN(x) || isNaN(y)) return null;
-      return [x, y] as [number, number];
-    })
-    .filter((c): c is [number, number] => c !== null);
+function segmentDistance([x, y]: [number, number], [x1, y1]: [number, number], [x2, y2]: [number, number]): number {
+  const lengthSq = (x2 - x1) ** 2 + (y2 - y1) ** 2;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * (x2 - x1) + (y - y1) * (y2 - y1)) / lengthSq));
+  return Math.hypot(x - (x1 + t * (x2 - x1)), y - (y1 + t * (y2 - y1)));
 }
 
 /**
@@ -0,0 +1,720 @@
+/**
+ * Planar geometry helpers for polygon analysis
+ *
+ * All functions work on plain coordinate arrays (GeoJSON-style nesting).
+ * Use them with projected SWEREF99TM coordinates (metres) so that distances
+ * and areas are meaningful — WGS84 degrees are not a planar unit.
+ */
+
+import polygonClipping from 'polygon-clipping';
+import type { BoundingBox } from './wkt-utils';
+import { ValidationError } from './errors';
+import {
+  parseWkt,
+  formatWkt,
+  parseGeoJsonGeometry,
+  toMultiPolygon,
+  toMultiLine,
+  polygonGeometry,
+  type Geometry,
+  type Position,
+  type Ring,
+  type PolygonCoords,
+  type MultiPolygonCoords,
+  type LineCoords,
+  type MultiLineCoords,
+} from './geometry-model';
+
+export type { Position, Ring, PolygonCoords, MultiPolygonCoords, LineCoords, MultiLineCoords };
+
+/**
+ * Parse polygon WKT (POLYGON, MULTIPOLYGON or a GEOMETRYCOLLECTION of them) into coordinates
+ *
+ * A POLYGON is returned as a single-element multipolygon so callers only
+ * need to handle one shape. EMPTY gives [].
+ */
+export function parseWktPolygons(wkt: string): MultiPolygonCoords {
+  return toMultiPolygon(parseWkt(wkt));
+}
+
+/**
+ * Format multipolygon coordinates as WKT: POLYGON for a single polygon, else MULTIPOLYGON
+ */
+export function formatWktPolygons(polygons: MultiPolygonCoords): string {
+  return formatWkt(polygonGeometry(polygons));
+}
+
+/**
+ * Parse line WKT (LINESTRING, MULTILINESTRING or a GEOMETRYCOLLECTION of them) into coordinates
+ *
+ * A LINESTRING is returned as a single-element multilinestring.
+ */
+export function parseWktLines(wkt: string): MultiLineCoords {
+  return toMultiLine(parseWkt(wkt));
+}
+
+/**
+ * Convert a GeoJSON Polygon/MultiPolygon geometry object into multipolygon coordinates
+ */
+export function geoJsonToMultiPolygon(geometry: unknown): MultiPolygonCoords {
+  return toMultiPolygon(parseGeoJsonGeometry(geometry));
+}
+
+/**
+ * Bounding box of any set of coordinate paths (rings or lines)
+ */
+export function pathsBoundingBox(paths: Position[][]): BoundingBox {
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+
+  for (const path of paths) {
+    for (const [x, y] of path) {
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  return { minX, maxX, minY, maxY };
+}
+
+/**
+ * Bounding box of a multipolygon (shells only — holes lie inside them)
+ */
+export function multiPolygonBoundingBox(polygons: MultiPolygonCoords): BoundingBox {
+  return pathsBoundingBox(polygons.map((polygon) => polygon[0] ?? []));
+}
+
+export function boundingBoxContains(box: BoundingBox, [x, y]: Position): boolean {
+  return x >= box.minX && x <= box.maxX && y >= box.minY && y <= box.maxY;
+}
+
+/**
+ * Ray casting point-in-ring test (even-odd rule)
+ */
+function pointInRing([x, y]: Position, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Test whether a point lies inside a polygon: inside the shell and outside every hole
+ */
+export function pointInPolygon(point: Position, polygon: PolygonCoords): boolean {
+  const [shell, ...holes] = polygon;
+  if (!shell || !pointInRing(point, shell)) return false;
+  return !holes.some((hole) => pointInRing(point, hole));
+}
+
+export function pointInMultiPolygon(point: Position, polygons: MultiPolygonCoords): boolean {
+  return polygons.some((polygon) => pointInPolygon(point, polygon));
+}
+
+/**
+ * Closest point on segment a-b to p
+ */
+function closestPointOnSegment([px, py]: Position, [ax, ay]: Position, [bx, by]: Position): Position {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return [ax, ay];
+
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return [ax + t * dx, ay + t * dy];
+}
+
+export function distanceBetween([x1, y1]: Position, [x2, y2]: Position): number {
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+/**
+ * Distance from a point to a multipolygon and the nearest boundary point
+ *
+ * Points inside the multipolygon have distance 0 (nearest is the point itself).
+ */
+export function distanceToMultiPolygon(point: Position, polygons: MultiPolygonCoords): { distance: number; nearest: Position } {
+  if (pointInMultiPolygon(point, polygons)) return { distance: 0, nearest: point };
+
+  let best = { distance: Infinity, nearest: point };
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const candidate = closestPointOnSegment(point, ring[i], ring[i + 1]);
+        const distance = distanceBetween(point, candidate);
+        if (distance < best.distance) best = { distance, nearest: candidate };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Distance from a point to a bounding box (0 if inside) — a cheap lower bound for polygon distance
+ */
+export function distanceToBoundingBox([x, y]: Position, box: BoundingBox): number {
+  const dx = Math.max(box.minX - x, 0, x - box.maxX);
+  const dy = Math.max(box.minY - y, 0, y - box.maxY);
+  return Math.hypot(dx, dy);
+}
+
+export function boundingBoxesOverlap(a: BoundingBox, b: BoundingBox): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+/**
+ * Test whether two segments p1-p2 and q1-q2 intersect (including touching)
+ */
+function segmentsIntersect(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const cross = (o: Position, a: Position, b: Position) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true;
+
+  const onSegment = (a: Position, b: Position, p: Position) =>
+    Math.min(a[0], b[0]) <= p[0] &&
+    p[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= p[1] &&
+    p[1] <= Math.max(a[1], b[1]);
+  return (
+    (d1 === 0 && onSegment(q1, q2, p1)) ||
+    (d2 === 0 && onSegment(q1, q2, p2)) ||
+    (d3 === 0 && onSegment(p1, p2, q1)) ||
+    (d4 === 0 && onSegment(p1, p2, q2))
+  );
+}
+
+/**
+ * Exact test whether a multipolygon intersects a bounding box
+ *
+ * True if a shell vertex lies in the box, a box corner lies in the polygon,
+ * or any polygon edge crosses a box edge.
+ */
+export function multiPolygonIntersectsBoundingBox(polygons: MultiPolygonCoords, box: BoundingBox): boolean {
+  const corners: Position[] = [
+    [box.minX, box.minY],
+    [box.maxX, box.minY],
+    [box.maxX, box.maxY],
+    [box.minX, box.maxY],
+  ];
+
+  return polygons.some((polygon) => {
+    if (polygon[0]?.some((vertex) => boundingBoxContains(box, vertex))) return true;
+    if (corners.some((corner) => pointInPolygon(corner, polygon))) return true;
+    return polygon.some((ring) =>
+      ring.some((vertex, i) => {
+        if (i === ring.length - 1) return false;
+        return corners.some((corner, c) => segmentsIntersect(vertex, ring[i + 1], corner, corners[(c + 1) % 4]));
+      }),
+    );
+  });
+}
+
+/**
+ * Shoelace area of a ring (absolute value, in squared coordinate units)
+ */
+function ringArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Round to `decimals` places, for reporting measurements
+ */
+export function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Planar area of a multipolygon: shells minus holes
+ */
+export function multiPolygonArea(polygons: MultiPolygonCoords): number {
+  return polygons.reduce((total, [shell, ...holes]) => {
+    if (!shell) return total;
+    return total + ringArea(shell) - holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+  }, 0);
+}
+
+/**
+ * Reject a multipolygon without a single coordinate (e.g. parsed from POLYGON EMPTY)
+ */
+function assertNotEmpty(polygons: MultiPolygonCoords, what: string): void {
+  if (!polygons.some((polygon) => polygon[0]?.length > 0)) {
+    throw new ValidationError(`Cannot compute the ${what} of an empty geometry`, 'geometry');
+  }
+}
+
+/**
+ * Area-weighted centroid of a multipolygon (holes subtracted)
+ *
+ * Can fall outside the polygon for concave or multi-part shapes — see multiPolygonInteriorPoint.
+ * Throws a ValidationError for an empty multipolygon, which has no centroid.
+ */
+export function multiPolygonCentroid(polygons: MultiPolygonCoords): Position {
+  assertNotEmpty(polygons, 'centroid');
+  let [area, cx, cy] = [0, 0, 0];
+  for (const polygon of polygons) {
+    polygon.forEach((ring, r) => {
+      // Shells count positive and holes negative, whatever their winding
+      let [ringArea2, ringCx, ringCy] = [0, 0, 0];
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [[x1, y1], [x2, y2]] = [ring[i], ring[i + 1]];
+        const cross = x1 * y2 - x2 * y1;
+        ringArea2 += cross;
+        ringCx += (x1 + x2) * cross;
+        ringCy += (y1 + y2) * cross;
+      }
+      const sign = (ringArea2 < 0 ? -1 : 1) * (r === 0 ? 1 : -1);
+      area += (sign * ringArea2) / 2;
+      cx += (sign * ringCx) / 6;
+      cy += (sign * ringCy) / 6;
+    });
+  }
+  // Degenerate (zero-area) input: fall back to its first coordinate
+  return area === 0 ? polygons.find((polygon) => polygon[0]?.length > 0)![0][0] : [cx / area, cy / area];
+}
+
+/**
+ * A point guaranteed to lie inside the multipolygon
+ *
+ * The centroid when it is inside; otherwise the middle of the widest stretch of the
+ * largest polygon along the horizontal line through the middle of its bounding box.
+ */
+export function multiPolygonInteriorPoint(polygons: MultiPolygonCoords): Position {
+  assertNotEmpty(polygons, 'interior point');
+  const centroid = multiPolygonCentroid(polygons);
+  if (pointInMultiPolygon(centroid, polygons)) return centroid;
+
+  const parts = polygons.filter((polygon) => polygon[0]?.length > 0);
+  const largest = parts.reduce(
+    (best, polygon) => (multiPolygonArea([polygon]) > multiPolygonArea([best]) ? polygon : best),
+    parts[0],
+  );
+  const box = pathsBoundingBox([largest[0]]);
+  const y = (box.minY + box.maxY) / 2;
+
+  // Even-odd crossings of all rings (holes included) pair up into inside stretches
+  const crossings: number[] = [];
+  for (const ring of largest) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [[x1, y1], [x2, y2]] = [ring[i], ring[i + 1]];
+      if (y1 > y !== y2 > y) crossings.push(x1 + ((y - y1) * (x2 - x1)) / (y2 - y1));
+    }
+  }
+  crossings.sort((a, b) => a - b);
+
+  let best: Position = centroid;
+  let bestWidth = 0;
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    if (crossings[i + 1] - crossings[i] > bestWidth) {
+      bestWidth = crossings[i + 1] - crossings[i];
+      best = [(crossings[i] + crossings[i + 1]) / 2, y];
+    }
+  }
+  return best;
+}
+
+export function lineLength(line: LineCoords): number {
+  let length = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    length += distanceBetween(line[i], line[i + 1]);
+  }
+  return length;
+}
+
+/**
+ * Intersection of two multipolygons
+ */
+export function intersectMultiPolygons(a: MultiPolygonCoords, b: MultiPolygonCoords): MultiPolygonCoords {
+  return polygonClipping.intersection(a, b);
+}
+
+function pointToSegmentDistance(point: Position, a: Position, b: Position): number {
+  return distanceBetween(point, closestPointOnSegment(point, a, b));
+}
+
+/**
+ * Minimum distance between two sets of paths (rings or lines); 0 if any segments cross
+ */
+function pathsDistance(pathsA: Position[][], pathsB: Position[][]): number {
+  let best = Infinity;
+  for (const pathA of pathsA) {
+    for (const pathB of pathsB) {
+      for (let i = 0; i < pathA.length - 1; i++) {
+        for (let j = 0; j < pathB.length - 1; j++) {
+          const [a1, a2, b1, b2] = [pathA[i], pathA[i + 1], pathB[j], pathB[j + 1]];
+          if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+          best = Math.min(
+            best,
+            pointToSegmentDistance(a1, b1, b2),
+            pointToSegmentDistance(a2, b1, b2),
+            pointToSegmentDistance(b1, a1, a2),
+            pointToSegmentDistance(b2, a1, a2),
+          );
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Analysis shape: polygons or lines, in the same planar coordinates as the areas they are compared with
+ */
+export type Shape = { type: 'polygon'; coordinates: MultiPolygonCoords } | { type: 'line'; coordinates: MultiLineCoords };
+
+export function shapePaths(shape: Shape): Position[][] {
+  return shape.type === 'polygon' ? shape.coordinates.flat() : shape.coordinates;
+}
+
+/**
+ * Minimum distance from a shape to a multipolygon (0 if they touch, cross or overlap)
+ */
+export function distanceShapeToMultiPolygon(shape: Shape, polygons: MultiPolygonCoords): number {
+  const paths = shapePaths(shape);
+
+  // Containment without boundary crossings: a vertex of one lies inside the other
+  if (paths.some((path) => path.some((vertex) => pointInMultiPolygon(vertex, polygons)))) return 0;
+  if (
+    shape.type === 'polygon' &&
+    polygons.some((polygon) => polygon[0]?.some((vertex) => pointInMultiPolygon(vertex, shape.coordinates)))
+  ) {
+    return 0;
+  }
+
+  return pathsDistance(paths, polygons.flat());
+}
+
+/**
+ * Shape of a parsed geometry: lines for (collections of) line strings, else polygons
+ */
+export function geometryToShape(geometry: Geometry): Shape {
+  const isLine = (member: Geometry): boolean =>
+    member.type === 'LineString' ||
+    member.type === 'MultiLineString' ||
+    (member.type === 'GeometryCollection' && member.geometries.length > 0 && member.geometries.every(isLine));
+  return isLine(geometry)
+    ? { type: 'line', coordinates: toMultiLine(geometry) }
+    : { type: 'polygon', coordinates: toMultiPolygon(geometry) };
+}
+
+/**
+ * Convert a GeoJSON geometry, Feature or FeatureCollection into a shape
+ *
+ * All parts must be polygons or all lines — mixed collections are rejected.
+ */
+export function geoJsonToShape(geojson: unknown): Shape {
+  const obj = geojson as { type?: string; geometry?: unknown; features?: unknown[] } | null;
+
+  if (obj?.type === 'Feature') return geoJsonToShape(obj.geometry);
+  if (obj?.type === 'FeatureCollection') {
+    const shapes = (obj.features ?? []).map(geoJsonToShape);
+    if (shapes.length === 0) throw new Error('GeoJSON FeatureCollection has no features');
+    if (shapes.some((shape) => shape.type !== shapes[0].type)) {
+      throw new Error('GeoJSON FeatureCollection mixes polygons and lines');
+    }
+    return shapes[0].type === 'polygon'
+      ? { type: 'polygon', coordinates: shapes.flatMap((shape) => shape.coordinates as MultiPolygonCoords) }
+      : { type: 'line', coordinates: shapes.flatMap((shape) => shape.coordinates as MultiLineCoords) };
+  }
+
+  return geometryToShape(parseGeoJsonGeometry(obj));
+}
+
+/**
+ * Apply a coordinate transform (e.g. reprojection) to every position of a shape
+ */
+export function mapShapeCoordinates(shape: Shape, fn: (position: Position) => Position): Shape {
+  return shape.type === 'polygon'
+    ? { type: 'polygon', coordinates: shape.coordinates.map((polygon) => polygon.map((ring) => ring.map(fn))) }
+    : { type: 'line', coordinates: shape.coordinates.map((line) => line.map(fn)) };
+}
+
+/**
+ * Stretch of a line that lies inside a polygon, measured along the line
+ */
+export interface LineInterval {
+  start: number; // Distance along the line where it enters, in coordinate units
+  end: number; // Distance along the line where it exits
+  entry: Position;
+  exit: Position;
+}
+
+/**
+ * Parameters t (0-1) where segment a-b crosses any edge of the multipolygon
+ */
+function segmentCrossings(a: Position, b: Position, polygons: MultiPolygonCoords): number[] {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const ts: number[] = [];
+
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [q, q2] = [ring[i], ring[i + 1]];
+        const sx = q2[0] - q[0];
+        const sy = q2[1] - q[1];
+        const denominator = rx * sy - ry * sx;
+        if (denominator === 0) continue; // Parallel/collinear — the midpoint test decides
+
+        const qpx = q[0] - a[0];
+        const qpy = q[1] - a[1];
+        const t = (qpx * sy - qpy * sx) / denominator;
+        const u = (qpx * ry - qpy * rx) / denominator;
+        if (t > 0 && t < 1 && u >= 0 && u <= 1) ts.push(t);
+      }
+    }
+  }
+
+  return ts.sort((x, y) => x - y);
+}
+
+/**
+ * Find the stretches of a line that lie inside a multipolygon, in order along the line
+ *
+ * Each segment is split at its boundary crossings and each piece is classified by
+ * testing its midpoint. Adjacent inside pieces are merged into one interval.
+ */
+export function lineInsideIntervals(line: LineCoords, polygons: MultiPolygonCoords): LineInterval[] {
+  const box = multiPolygonBoundingBox(polygons);
+  const intervals: LineInterval[] = [];
+  let current: LineInterval | null = null;
+  let travelled = 0;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = line[i];
+    const b = line[i + 1];
+    const length = distanceBetween(a, b);
+    const nearPolygon = boundingBoxesOverlap(box, pathsBoundingBox([[a, b]]));
+    const ts = nearPolygon ? [0, ...segmentCrossings(a, b, polygons), 1] : [0, 1];
+    const at = (t: number): Position => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+    for (let j = 0; j < ts.length - 1; j++) {
+      const inside = nearPolygon && pointInMultiPolygon(at((ts[j] + ts[j + 1]) / 2), polygons);
+
+      if (inside) {
+        if (!current) {
+          current = { start: travelled + length * ts[j], end: 0, entry: at(ts[j]), exit: at(ts[j]) };
+        }
+        current.end = travelled + length * ts[j + 1];
+        current.exit = at(ts[j + 1]);
+      } else if (current) {
+        intervals.push(current);
+        current = null;
+      }
+    }
+
+    travelled += length;
+  }
+
+  if (current) intervals.push(current);
+  return intervals;
+}
+
+/**
+ * Ways a polygon can break OGC Simple Features validity
+ */
+export type ValidityIssueType =
+  | 'too_few_points' // Ring with fewer than 4 points (3 distinct + closing)
+  | 'unclosed_ring'
+  | 'zero_area' // Collapsed sliver: all points on one line
+  | 'self_intersection' // Ring crosses or touches itself, including spikes
+  | 'ring_intersection' // Shell and hole (or two holes) cross or share an edge
+  | 'hole_outside_shell'
+  | 'nested_holes'
+  | 'polygon_overlap'; // Two polygons of a multipolygon cross, share an edge, or one lies inside the other
+
+export interface ValidityIssue {
+  type: ValidityIssueType;
+  polygon: number; // Index in the multipolygon
+  ring?: number; // Index in the polygon (0 = shell), when the issue belongs to one ring
+}
+
+type IndexedSegment = {
+  polygon: number;
+  ring: number;
+  index: number;
+  a: Position;
+  b: Position;
+  minX: number;
+  maxX: number;
+};
+
+/**
+ * Drop consecutive duplicate points, which are redundant rather than invalid
+ */
+function dedupeRing(ring: Ring): Ring {
+  return ring.filter((point, i) => i === 0 || point[0] !== ring[i - 1][0] || point[1] !== ring[i - 1][1]);
+}
+
+/**
+ * All points on one line, so the ring encloses nothing
+ *
+ * Not the same as zero signed area: a figure-eight's lobes cancel out but still have area.
+ */
+function isCollapsedRing(ring: Ring): boolean {
+  const [a, b] = [ring[0], ring.find((point) => point[0] !== ring[0][0] || point[1] !== ring[0][1])];
+  if (!b) return true;
+  return ring.every((p) => (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]) === 0);
+}
+
+/**
+ * Adjacent segments pointing in opposite directions along one line — the ring doubles back
+ */
+function isSpike(a1: Position, a2: Position, b1: Position, b2: Position): boolean {
+  const cross = (a2[0] - a1[0]) * (b2[1] - b1[1]) - (a2[1] - a1[1]) * (b2[0] - b1[0]);
+  const backtracks = (a2[0] - a1[0]) * (b2[0] - b1[0]) + (a2[1] - a1[1]) * (b2[1] - b1[1]) < 0;
+  return cross === 0 && backtracks;
+}
+
+/**
+ * Segments cross properly or overlap along a stretch — more than touching at a single point
+ */
+function segmentsCross(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const cross = (o: Position, a: Position, b: Position) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const [d1, d2, d3, d4] = [cross(q1, q2, p1), cross(q1, q2, p2), cross(p1, p2, q1), cross(p1, p2, q2)];
+  if (d1 * d2 < 0 && d3 * d4 < 0) return true;
+  if (d1 !== 0 || d2 !== 0) return false;
+
+  // Collinear: project onto the longer axis and compare the overlap length
+  const axis = Math.abs(p2[0] - p1[0]) >= Math.abs(p2[1] - p1[1]) ? 0 : 1;
+  const overlap =
+    Math.min(Math.max(p1[axis], p2[axis]), Math.max(q1[axis], q2[axis])) -
+    Math.max(Math.min(p1[axis], p2[axis]), Math.min(q1[axis], q2[axis]));
+  return overlap > 0;
+}
+
+/**
+ * Find segment intersections with a sweep over x, classifying each by which rings meet
+ *
+ * Adjacent segments of a ring always share a vertex; they only count when the ring
+ * doubles back on itself (a zero-width spike). Separate rings may touch at single points
+ * as OGC allows, but not cross or share an edge.
+ */
+function segmentIssues(polygons: MultiPolygonCoords): ValidityIssue[] {
+  const segments: IndexedSegment[] = [];
+  polygons.forEach((polygon, p) =>
+    polygon.forEach((ring, r) => {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [a, b] = [ring[i], ring[i + 1]];
+        segments.push({ polygon: p, ring: r, index: i, a, b, minX: Math.min(a[0], b[0]), maxX: Math.max(a[0], b[0]) });
+      }
+    }),
+  );
+  segments.sort((s1, s2) => s1.minX - s2.minX);
+
+  const issues: ValidityIssue[] = [];
+  let active: IndexedSegment[] = [];
+  for (const segment of segments) {
+    active = active.filter((other) => other.maxX >= segment.minX);
+    for (const other of active) {
+      if (other.polygon !== segment.polygon) {
+        if (segmentsCross(segment.a, segment.b, other.a, other.b)) {
+          issues.push({ type: 'polygon_overlap', polygon: Math.min(segment.polygon, other.polygon) });
+        }
+        continue;
+      }
+      if (other.ring !== segment.ring) {
+        if (segmentsCross(segment.a, segment.b, other.a, other.b)) {
+          issues.push({ type: 'ring_intersection', polygon: segment.polygon, ring: Math.max(segment.ring, other.ring) });
+        }
+        continue;
+      }
+
+      const segmentCount = polygons[segment.polygon][segment.ring].length - 1;
+      const gap = Math.abs(segment.index - other.index);
+      const adjacent = gap === 1 || gap === segmentCount - 1;
+      const intersects = adjacent
+        ? isSpike(segment.a, segment.b, other.a, other.b)
+        : segmentsIntersect(segment.a, segment.b, other.a, other.b);
+      if (intersects) issues.push({ type: 'self_intersection', polygon: segment.polygon, ring: segment.ring });
+    }
+    active.push(segment);
+  }
+  return issues;
+}
+
+/**
+ * Check a multipolygon against the OGC Simple Features polygon rules
+ *
+ * Returns one issue per problem kind and ring (empty when valid). Consecutive duplicate
+ * points are tolerated. Containment is tested on a single vertex, which is exact once
+ * no rings intersect.
+ */
+export function validateMultiPolygon(input: MultiPolygonCoords): ValidityIssue[] {
+  const issues: ValidityIssue[] = [];
+  const polygons: MultiPolygonCoords = [];
+
+  input.forEach((polygon, p) => {
+    polygon.forEach((rawRing, r) => {
+      const ring = dedupeRing(rawRing);
+      const [first, last] = [ring[0], ring[ring.length - 1]];
+      if (ring.length > 0 && (first[0] !== last[0] || first[1] !== last[1])) {
+        issues.push({ type: 'unclosed_ring', polygon: p, ring: r });
+      } else if (ring.length < 4) {
+        issues.push({ type: 'too_few_points', polygon: p, ring: r });
+      } else if (isCollapsedRing(ring)) {
+        issues.push({ type: 'zero_area', polygon: p, ring: r });
+      }
+    });
+    polygons.push(polygon.map(dedupeRing));
+  });
+  if (issues.length > 0) return issues;
+
+  issues.push(...segmentIssues(polygons));
+  if (issues.length === 0) {
+    polygons.forEach(([shell, ...holes], p) => {
+      holes.forEach((hole, h) => {
+        if (!pointInRing(hole[0], shell)) issues.push({ type: 'hole_outside_shell', polygon: p, ring: h + 1 });
+        if (holes.some((other, o) => o !== h && pointInRing(hole[0], other))) {
+          issues.push({ type: 'nested_holes', polygon: p, ring: h + 1 });
+        }
+      });
+      if (polygons.some((other, o) => o !== p && pointInPolygon(shell[0], other))) {
+        issues.push({ type: 'polygon_overlap', polygon: p });
+      }
+    });
+  }
+
+  return issues.filter(
+    (issue, i) =>
+      issues.findIndex((other) => other.type === issue.type && other.polygon === issue.polygon && other.ring === issue.ring) ===
+      i,
+  );
+}
+
+/**
+ * Rebuild a valid multipolygon from possibly invalid rings
+ *
+ * Degenerate rings are dropped, each polygon becomes its shell minus its holes, and the
+ * polygons are unioned. Self-crossing rings are resolved by the non-zero winding rule,
+ * so a figure-eight becomes two touching polygons. Returns [] if nothing with area is left.
+ */
+export function repairMultiPolygon(polygons: MultiPolygonCoords): MultiPolygonCoords {
+  const usable = (ring: Ring) => ring.length >= 4 && !isCollapsedRing(ring);
+  const parts = polygons
+    .map((polygon) => polygon.map(dedupeRing))
+    .filter(([shell]) => shell && usable(shell))
+    .map(([shell, ...holes]) =>
+      polygonClipping.difference([shell], ...holes.filter(usable).map((hole): PolygonCoords => [hole])),
+    );
+
+  if (parts.length === 0) return [];
+  return polygonClipping.union(parts[0], ...parts.slice(1));
+}
@@ -1,16 +1,73 @@
-import { UpstreamApiError } from './errors';
+import { UpstreamApiError, CancelledError } from './errors';
+import { currentSignal, remainingTime, throwIfCancelled, sleep } from './cancellation';
+import { getCachedResponse, setCachedResponse, isCacheBypassed, recordCacheHit } from './response-cache';
+import { createCircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import { limiterForHost, createSingleFlight } from './concurrency';
+
+/** Identical GETs in flight, shared by all clients so concurrent tool calls fetch once */
+const inFlightGets = createSingleFlight<unknown>();
+
+/** Gateway errors worth retrying — the upstream or its proxy is briefly unavailable */
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+
+/** Longest wait before a retry; a longer Retry-After fails straight away */
+const MAX_RETRY_DELAY = 10000;
+
+/** Shortest time worth giving an attempt; a retry with less left before the deadline is skipped */
+const MIN_ATTEMPT_TIME = 5000;
 
 interface HttpClientConfig {
   baseUrl: string;
   timeout?: number;
   headers?: Record<string, string>;
+  /** Cache lifetime in ms for a GET of `path` (0 = don't cache). See CACHE_TTL. */
+  cacheTtl?: (path: string) => number;
+  /** Extra attempts for a GET on 502/503/504 or timeout (default 2) */
+  retries?: number;
+  /** Base backoff in ms before the first retry, doubled for each further one (default 500) */
+  retryDelay?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+type AttemptFailure = {
+  message: string; // What went wrong
+  hint: string; // What to do about it, used when the request was not retried
+  statusCode: number;
+  retryable: boolean;
+  upstreamDown: boolean; // Counts towards opening the circuit: 502/503/504, timeouts and connection failures
+  retryAfter?: number; // ms, from a Retry-After header
+};
+
+type AttemptOutcome<T> = { ok: true; data: T } | { ok: false; failure: AttemptFailure };
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 /**
  * Create a typed HTTP client for API wrapping
+ *
+ * Successful GET responses are cached for `cacheTtl(path)`. Pass `cache: false` for a
+ * request, or run the call inside withCacheBypass, to skip cached responses. A response
+ * that fails the request's `validate` (e.g. an Oracle error served as WKT) is never cached.
+ *
+ * Each client has its own circuit breaker, so one dead upstream fails fast without
+ * affecting the others. Cached responses are still served while the circuit is open.
+ *
+ * Concurrent identical GETs share one upstream fetch. Every attempt goes through the limiter shared by all clients of the same host; backoff
+ * waits between retries don't hold a slot.
  */
 export function createHttpClient(config: HttpClientConfig) {
-  const { baseUrl, timeout = 30000, headers = {} } = config;
+  const { baseUrl, timeout = 30000, headers = {}, cacheTtl, retries = 2, retryDelay = 500 } = config;
+  const breaker = createCircuitBreaker(config.circuitBreaker);
+  const limiter = limiterForHost(new URL(baseUrl).host);
 
   async function request<T>(
     path: string,
@@ -18,9 +75,12 @@ export function createHttpClient(config: HttpClientConfig) {
       method?: 'GET' | 'POST';
       params?: Record<string, string | number | undefined>;
       body?: unknown;
+      cache?: boolean;
+      /** Check (and normalize) a fresh response; throwing keeps it out of the cache */
+      validate?: (data: T) => T;
     } = {},
   ): Promise<T> {
-    const { method = 'GET', params, body } = options;
+    const { method = 'GET', params, body, cache = true, validate } = options;
 
     // Build URL with query params (strip leading / from path if present)
     const cleanPath = path.startsWith('/') ? path.substring(1) : path;
@@ -33,8 +93,115 @@ export function createHttpClient(config: HttpClientConfig) {
       });
     }
 
+    const ttl = method === 'GET' && cache && cacheTtl ? cacheTtl(path) : 0;
+    const cacheKey = `${method} ${url.toString()}`;
+    if (ttl > 0 && !isCacheBypassed()) {
+      const cached = await getCachedResponse(cacheKey);
+      if (cached) {
+        recordCacheHit(cached.cachedAt);
+        // Copies keep callers that modify a response from changing the cached one
+        return structuredClone(cached.value) as T;
+      }
+    }
+
+    const fetchAndCache = async () => {
+      const received = await send<T>(url, method, body);
+      const data = validate ? validate(received) : received;
+      if (ttl > 0) await setCachedResponse(cacheKey, structuredClone(data), ttl);
+      return data;
+    };
+    if (method !== 'GET') return fetchAndCache();
+
+    // A caller skipping the cache asked for a response fetched for it, so it only joins other such callers
+    const flightKey = isCacheBypassed() ? `${cacheKey} fresh` : cacheKey;
+    const { value, shared } = await inFlightGets.run(flightKey, fetchAndCache);
+    // Callers joining another's fetch get their own copy, as with cached responses
+    return (shared ? structuredClone(value) : value) as T;
+  }
+
+  /**
+   * Send a request, retrying idempotent GETs on 502/503/504 and timeouts
+   *
+   * Backoff doubles per retry with full jitter; a Retry-After header replaces it. Every
+   * error carries the retry count and circuit state in its details. Cancelling the tool
+   * call aborts the request in flight and any wait, with a CancelledError.
+   *
+   * Within a tool call's deadline, the time left is shared between the remaining attempts,
+   * and a retry that could not get MIN_ATTEMPT_TIME before the deadline is not made.
+   */
+  async function send<T>(url: URL, method: 'GET' | 'POST', body: unknown): Promise<T> {
+    const signal = currentSignal();
+    throwIfCancelled(signal);
+    if (!breaker.tryAcquire()) {
+      const retryAfterS = Math.ceil(breaker.remainingOpenTime() / 1000);
+      throw new UpstreamApiError(
+        `The data service is failing repeatedly, so requests to it are paused for ${retryAfterS} s. Try again later.`,
+        503,
+        baseUrl,
+        { retries: 0, circuit: breaker.state(), retry_after_s: retryAfterS },
+      );
+    }
+    const isTrial = breaker.state() === 'half_open';
+
+    try {
+      const maxRetries = method === 'GET' ? retries : 0;
+      for (let retry = 0; ; retry++) {
+        const outcome = await limiter.run(() => attempt<T>(url, method, body, signal, maxRetries - retry), signal);
+        if (outcome.ok) {
+          breaker.recordSuccess();
+          return outcome.data;
+        }
+
+        const { failure } = outcome;
+        const delay = failure.retryAfter ?? retryDelay * 2 ** retry * Math.random();
+        const timeLeft = remainingTime() ?? Infinity;
+        if (
+          !failure.retryable ||
+          retry >= maxRetries ||
+          delay > MAX_RETRY_DELAY ||
+          timeLeft < delay + MIN_ATTEMPT_TIME ||
+          breaker.state() === 'open'
+        ) {
+          // One outage per request, however many attempts it took
+          if (failure.upstreamDown) {
+            breaker.recordFailure();
+          } else {
+            breaker.recordSuccess();
+          }
+          const hint =
+            retry > 0 ? `Still failing after ${retry} ${retry === 1 ? 'retry' : 'retries'} — try again later.` : failure.hint;
+          throw new UpstreamApiError(`${failure.message} ${hint}`, failure.statusCode, baseUrl, {
+            retries: retry,
+            circuit: breaker.state(),
+            ...(failure.retryAfter !== undefined && { retry_after_s: Math.ceil(failure.retryAfter / 1000) }),
+          });
+        }
+        await sleep(delay, signal);
+      }
+    } catch (error) {
+      // A cancelled trial request says nothing about the upstream, so the next request may try
+      if (isTrial && error instanceof CancelledError) breaker.releaseTrial();
+      throw error;
+    }
+  }
+
+  /**
+   * Make one attempt, describing a failure instead of throwing it (cancellation still throws)
+   */
+  async function attempt<T>(
+    url: URL,
+    method: 'GET' | 'POST',
+    body: unknown,
+    signal: AbortSignal | undefined,
+    retriesLeft: number,
+  ): Promise<AttemptOutcome<T>> {
+    throwIfCancelled(signal);
+    // Leave time for the retries still allowed, so a timed-out attempt can be retried before the deadline
+    const timeLeft = remainingTime();
+    const attemptTimeout =
+      timeLeft === undefined ? timeout : Math.min(timeout, Math.max(MIN_ATTEMPT_TIME, timeLeft / (retriesLeft + 1)));
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const timeoutId = setTimeout(() => controller.abort(), attemptTimeout);
 
     try {
       const response = await fetch(url.toString(), {
@@ -44,49 +211,78 @@ export function createHttpClient(config: HttpClientConfig) {
           ...headers,
         },
         body: body ? JSON.stringify(body) : undefined,
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        const msg =
-          response.status >= 500
-            ? `The data service returned an error (HTTP ${response.status}). This is usually temporary — try again.`
-            : `The data service rejected the request (HTTP ${response.status}). The query parameters may be invalid.`;
-        throw new UpstreamApiError(msg, response.status, baseUrl);
+        const isServerError = response.status >= 500;
+        return {
+          ok: false,
+          failure: {
+            message: isServerError
+              ? `The data service returned an error (HTTP ${response.status}).`
+              : `The data service rejected the request (HTTP ${response.status}).`,
+            hint: isServerError ? 'This is usually temporary — try again.' : 'The query parameters may be invalid.',
+            statusCode: response.status,
+            retryable: RETRYABLE_STATUS.has(response.status),
+            // A plain 500 is an answer (e.g. the known ORA-28579 from extentAsWkt), not an outage
+            upstreamDown: RETRYABLE_STATUS.has(response.status),
+            retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+          },
+        };
       }
 
       const contentType = response.headers.get('content-type');
 
       // Handle text responses (like WKT)
       if (contentType?.includes('text/plain')) {
-        return (await response.text()) as T;
+        return { ok: true, data: (await response.text()) as T };
       }
 
       // Handle XML error responses (e.g., WFS ServiceExceptionReport returned on HTTP 200)
       if (contentType?.includes('text/xml') || contentType?.includes('application/xml')) {
-        throw new UpstreamApiError(
-          'The data service returned an unexpected error response. Try again or use different parameters.',
-          response.status,
-          baseUrl,
-        );
+        return {
+          ok: false,
+          failure: {
+            message: 'The data service returned an unexpected error response.',
+            hint: 'Try again or use different parameters.',
+            statusCode: response.status,
+            retryable: false,
+            upstreamDown: false,
+          },
+        };
       }
 
-      return (await response.json()) as T;
+      return { ok: true, data: (await response.json()) as T };
     } catch (error) {
       clearTimeout(timeoutId);
-      if (error instanceof UpstreamApiError) throw error;
+      throwIfCancelled(signal);
 
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new UpstreamApiError(
-          'The request timed out. The data service may be slow — try again or use a smaller search area.',
-          0,
-          baseUrl,
-        );
+        return {
+          ok: false,
+          failure: {
+            message: 'The request timed out.',
+            hint: 'The data service may be slow — try again or use a smaller search area.',
+            statusCode: 0,
+            retryable: true,
+            upstreamDown: true,
+          },
+        };
       }
 
-      throw new UpstreamApiError('Could not connect to the data service. This is usually temporary — try again.', 0, baseUrl);
+      return {
+        ok: false,
+        failure: {
+          message: 'Could not connect to the data service.',
+          hint: 'This is usually temporary — try again.',
+          statusCode: 0,
+          retryable: false,
+          upstreamDown: true,
+        },
+      };
     }
   }
 
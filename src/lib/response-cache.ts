@@ -0,0 +1,239 @@
+/**
+ * Cache for upstream API responses
+ *
+ * Protected area decisions change at most every few months, so repeated lookups of a
+ * popular area are served from cache instead of hitting the geodata API again. An
+ * in-memory LRU sits in front of an optional persistent backend (filesystem, Redis or
+ * anything implementing CacheBackend) that survives cold starts and is shared between
+ * instances.
+ *
+ * Configuration:
+ * - NVV_CACHE_MAX_ENTRIES: in-memory LRU size (default 200, 0 disables the memory layer)
+ * - NVV_CACHE_MAX_MB: in-memory LRU size in approximate megabytes (default 50). Responses
+ *   larger than a tenth of it (WFS searches with full geometries) are not kept in memory.
+ * - NVV_CACHE_DIR: enables the filesystem backend in this directory
+ * - setPersistentCache(): plug in another backend, e.g. createRedisCache(client)
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Time to live per endpoint type, in milliseconds */
+export const CACHE_TTL = {
+  reference: 7 * DAY, // Species, habitat and protection type lists
+  area: DAY, // Area records, geometry, documents and other per-area data
+  search: HOUR, // Area lists filtered by kommun/lan/bbox and combined extents
+};
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_MAX_MB = 50;
+
+/** Largest single response kept in memory, as a share of the memory budget */
+const MAX_ENTRY_SHARE = 0.1;
+
+export interface CacheEntry {
+  value: unknown;
+  cachedAt: number; // Epoch ms when the response was fetched from upstream
+  expiresAt: number; // Epoch ms
+}
+
+/**
+ * Storage for cached responses
+ *
+ * Implementations drop expired entries on read. Failures may be thrown — the cache
+ * treats them as misses so a broken backend never fails a request.
+ */
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * Subset of the node-redis v4 client used by the Redis backend
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+}
+
+/**
+ * Approximate memory footprint of a response: its length as JSON text
+ *
+ * Parsed coordinate arrays take somewhat more than their text, so this undercounts, but it
+ * scales with the real size — which is what the budget needs.
+ */
+function approximateSize(value: unknown): number {
+  return typeof value === 'string' ? value.length : (JSON.stringify(value)?.length ?? 0);
+}
+
+/**
+ * In-memory backend that evicts the least recently used entries when full
+ *
+ * Bounded both by entry count and by approximate size in bytes. A response larger than
+ * MAX_ENTRY_SHARE of `maxBytes` is not stored, so one huge WFS result can't flush the rest.
+ */
+export function createMemoryCache(maxEntries: number, maxBytes: number): CacheBackend {
+  // Map iteration follows insertion order, so re-inserting on read keeps the oldest first
+  const entries = new Map<string, { entry: CacheEntry; size: number }>();
+  let totalSize = 0;
+
+  function remove(key: string): void {
+    const stored = entries.get(key);
+    if (!stored) return;
+    entries.delete(key);
+    totalSize -= stored.size;
+  }
+
+  return {
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) return undefined;
+      remove(key);
+      if (stored.entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, stored);
+      totalSize += stored.size;
+      return stored.entry;
+    },
+
+    async set(key, entry) {
+      remove(key);
+      const size = approximateSize(entry.value);
+      if (maxEntries <= 0 || size > maxBytes * MAX_ENTRY_SHARE) return;
+
+      entries.set(key, { entry, size });
+      totalSize += size;
+      while (entries.size > maxEntries || totalSize > maxBytes) {
+        remove(entries.keys().next().value as string);
+      }
+    },
+  };
+}
+
+/**
+ * Filesystem backend storing one JSON file per response
+ */
+export function createFileCache(directory: string): CacheBackend {
+  const pathFor = (key: string) => join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      const path = pathFor(key);
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(await readFile(path, 'utf8')) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+      if (entry.expiresAt > Date.now()) return entry;
+      await unlink(path).catch(() => undefined);
+      return undefined;
+    },
+
+    async set(key, entry) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(pathFor(key), JSON.stringify(entry));
+    },
+  };
+}
+
+/**
+ * Redis backend; expiry is left to Redis
+ */
+export function createRedisCache(client: RedisLikeClient, prefix = 'nvv:'): CacheBackend {
+  return {
+    async get(key) {
+      const stored = await client.get(prefix + key);
+      return stored ? (JSON.parse(stored) as CacheEntry) : undefined;
+    },
+
+    async set(key, entry) {
+      const ttl = entry.expiresAt - Date.now();
+      if (ttl > 0) await client.set(prefix + key, JSON.stringify(entry), { PX: ttl });
+    },
+  };
+}
+
+const maxEntries = Number(process.env.NVV_CACHE_MAX_ENTRIES ?? DEFAULT_MAX_ENTRIES);
+const maxMegabytes = Number(process.env.NVV_CACHE_MAX_MB) || DEFAULT_MAX_MB;
+const memoryCache = createMemoryCache(Number.isNaN(maxEntries) ? DEFAULT_MAX_ENTRIES : maxEntries, maxMegabytes * 1024 * 1024);
+let persistentCache: CacheBackend | undefined = process.env.NVV_CACHE_DIR
+  ? createFileCache(process.env.NVV_CACHE_DIR)
+  : undefined;
+
+/**
+ * Replace the persistent backend (undefined leaves only the in-memory LRU)
+ */
+export function setPersistentCache(backend: CacheBackend | undefined): void {
+  persistentCache = backend;
+}
+
+/**
+ * Look up a response, promoting persistent hits into memory
+ */
+export async function getCachedResponse(key: string): Promise<CacheEntry | undefined> {
+  const cached = await memoryCache.get(key);
+  if (cached) return cached;
+  if (!persistentCache) return undefined;
+
+  const entry = await persistentCache.get(key).catch(() => undefined);
+  if (entry) await memoryCache.set(key, entry);
+  return entry;
+}
+
+/**
+ * Store a response in every cache layer
+ */
+export async function setCachedResponse(key: string, value: unknown, ttl: number): Promise<void> {
+  const now = Date.now();
+  const entry: CacheEntry = { value, cachedAt: now, expiresAt: now + ttl };
+  await memoryCache.set(key, entry);
+  await persistentCache?.set(key, entry).catch(() => undefined);
+}
+
+interface CacheContext {
+  bypass: boolean;
+  usage: { oldestHit?: number }; // Shared with nested contexts
+}
+
+const cacheContext = new AsyncLocalStorage<CacheContext>();
+
+/**
+ * Run `fn` and report when the oldest cached response it used was fetched
+ *
+ * `cachedAt` is undefined when every response came straight from upstream.
+ */
+export async function trackCacheUsage<R>(fn: () => Promise<R>): Promise<{ result: R; cachedAt?: string }> {
+  const context: CacheContext = { bypass: false, usage: {} };
+  const result = await cacheContext.run(context, fn);
+  const { oldestHit } = context.usage;
+  return { result, cachedAt: oldestHit === undefined ? undefined : new Date(oldestHit).toISOString() };
+}
+
+/**
+ * Run `fn` with cache reads disabled; fresh responses still refresh the cache
+ */
+export function withCacheBypass<R>(fn: () => Promise<R>): Promise<R> {
+  const usage = cacheContext.getStore()?.usage ?? {};
+  return cacheContext.run({ bypass: true, usage }, fn);
+}
+
+/**
+ * Whether the current call asked to skip cached responses
+ */
+export function isCacheBypassed(): boolean {
+  return cacheContext.getStore()?.bypass ?? false;
+}
+
+/**
+ * Note that the current call used a response cached at `cachedAt`
+ */
+export function recordCacheHit(cachedAt: number): void {
+  const usage = cacheContext.getStore()?.usage;
+  if (usage && (usage.oldestHit === undefined || cachedAt < usage.oldestHit)) usage.oldestHit = cachedAt;
+}
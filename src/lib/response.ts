@@ -1,4 +1,6 @@
 import type { McpToolError } from './errors';
+import { trackCacheUsage, withCacheBypass } from './response-cache';
+import { runWithSignal, TOOL_DEADLINE_MS } from './cancellation';
 
 const INTERNAL_DETAIL_KEYS = new Set(['statusCode', 'upstream']);
 
@@ -63,12 +65,28 @@ export function errorResponse(error: McpToolError | Error): ToolResponse {
 
 /**
  * Wrap a tool handler with standard error handling
+ *
+ * When the handler used cached upstream responses, an object result gets `cached_at`:
+ * when the oldest of them was fetched. A tool taking `fresh: true` runs with cache reads
+ * disabled (see withCacheBypass).
+ *
+ * The handler gets a signal that aborts when the MCP client cancels the call or the call
+ * reaches TOOL_DEADLINE_MS. Upstream requests see it automatically; a handler can check it
+ * to return what it has so far instead of failing.
  */
-export function withErrorHandling<T, R>(handler: (args: T) => Promise<R>): (args: T) => Promise<ToolResponse> {
-  return async (args: T) => {
+export function withErrorHandling<T, R>(
+  handler: (args: T, signal: AbortSignal) => Promise<R>,
+): (args: T, extra?: { signal?: AbortSignal }) => Promise<ToolResponse> {
+  return async (args: T, extra?: { signal?: AbortSignal }) => {
+    const deadlineAt = Date.now() + TOOL_DEADLINE_MS;
+    const deadline = AbortSignal.timeout(TOOL_DEADLINE_MS);
+    const signal = extra?.signal ? AbortSignal.any([extra.signal, deadline]) : deadline;
     try {
-      const result = await handler(args);
-      return successResponse(result);
+      const fresh = (args as { fresh?: unknown } | undefined)?.fresh === true;
+      const run = () => runWithSignal(signal, () => handler(args, signal), deadlineAt);
+      const { result, cachedAt } = await trackCacheUsage(() => (fresh ? withCacheBypass(run) : run()));
+      const isObject = typeof result === 'object' && result !== null && !Array.isArray(result);
+      return successResponse(cachedAt && isObject ? { ...result, cached_at: cachedAt } : result);
     } catch (error) {
       console.error('Tool execution error:', error);
       return errorResponse(error instanceof Error ? error : new Error(String(error)));
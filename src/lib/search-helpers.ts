@@ -17,3 +17,44 @@ export function searchAndSort<T extends { name: string }>(items: T[], query: str
 
   return matches;
 }
+
+/**
+ * Normalize a name for matching: lowercase, trimmed, diacritics stripped ("Ängsö" -> "angso")
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Rank how well a name matches a query (lower is better, null = no match)
+ *
+ * 0 = exact, 1 = name starts with query, 2 = a word starts with query, 3 = substring
+ */
+export function nameMatchRank(name: string, query: string): number | null {
+  const normalizedName = normalizeName(name);
+  const normalizedQuery = normalizeName(query);
+
+  if (normalizedName === normalizedQuery) return 0;
+  if (normalizedName.startsWith(normalizedQuery)) return 1;
+  if (normalizedName.split(/[\s\-–/]+/).some((word) => word.startsWith(normalizedQuery))) return 2;
+  if (normalizedName.includes(normalizedQuery)) return 3;
+  return null;
+}
+
+/**
+ * Filter by partial, case- and diacritic-insensitive name match and sort by relevance
+ */
+export function filterAndRankByName<T extends { name: string }>(items: T[], query: string): T[] {
+  const ranked: { item: T; rank: number }[] = [];
+  for (const item of items) {
+    const rank = nameMatchRank(item.name, query);
+    if (rank !== null) ranked.push({ item, rank });
+  }
+
+  ranked.sort((a, b) => a.rank - b.rank || a.item.name.localeCompare(b.item.name, 'sv'));
+  return ranked.map(({ item }) => item);
+}
@@ -0,0 +1,132 @@
+/**
+ * Parsing of user-supplied geometries (footprints, routes) for spatial analysis tools
+ *
+ * Accepts WKT, GeoJSON and GPX text and returns a shape in SWEREF99TM metres.
+ */
+
+import { ValidationError } from './errors';
+import { wgs84ToSweref99, wgs84BboxToSweref99, type Wgs84Bbox } from './coordinates';
+import { parseEwkt } from './geometry-model';
+import {
+  geometryToShape,
+  geoJsonToShape,
+  mapShapeCoordinates,
+  shapePaths,
+  type Shape,
+  type LineCoords,
+  type MultiLineCoords,
+  type MultiPolygonCoords,
+  type Ring,
+} from './geometry';
+
+export const INPUT_CRS = ['EPSG:4326', 'EPSG:3006'] as const;
+export type InputCrs = (typeof INPUT_CRS)[number];
+
+/** Points per bbox edge when projecting it — parallels are curves in SWEREF99TM */
+const BBOX_EDGE_POINTS = 16;
+
+/**
+ * Parse GPX track segments and routes into lines of [lon, lat] positions
+ *
+ * Each <trkseg> and <rte> becomes one line. Waypoints (<wpt>) are ignored.
+ */
+export function parseGpxLines(gpx: string): MultiLineCoords {
+  const blocks = gpx.match(/<(trkseg|rte)\b[\s\S]*?<\/\1>/g) ?? [];
+  const lines: MultiLineCoords = [];
+
+  for (const block of blocks) {
+    const line: LineCoords = [];
+    for (const point of block.match(/<(?:trkpt|rtept)\b[^>]*>/g) ?? []) {
+      const lat = Number(point.match(/\blat\s*=\s*["']([^"']+)["']/)?.[1]);
+      const lon = Number(point.match(/\blon\s*=\s*["']([^"']+)["']/)?.[1]);
+      if (isNaN(lat) || isNaN(lon)) throw new Error(`Invalid GPX point: ${point}`);
+      line.push([lon, lat]);
+    }
+    if (line.length > 0) lines.push(line);
+  }
+
+  if (lines.length === 0) throw new Error('GPX contains no track or route points');
+  return lines;
+}
+
+/**
+ * Parse WKT, GeoJSON or GPX text and project it to SWEREF99TM
+ *
+ * GPX is always WGS84. For WKT/GeoJSON, `crs` says whether coordinates are
+ * WGS84 lon/lat (validated to lie within Sweden) or already SWEREF99TM. An EWKT
+ * SRID prefix (SRID=3006;...) overrides `crs`.
+ */
+export function parseShapeInput(text: string, crs: InputCrs, field: string): Shape {
+  const trimmed = text.trim();
+  const isGpx = trimmed.startsWith('<');
+
+  let shape: Shape;
+  let srid: number | undefined;
+  try {
+    if (isGpx) {
+      shape = { type: 'line', coordinates: parseGpxLines(trimmed) };
+    } else if (trimmed.startsWith('{')) {
+      shape = geoJsonToShape(JSON.parse(trimmed));
+    } else {
+      const parsed = parseEwkt(trimmed);
+      shape = geometryToShape(parsed.geometry);
+      srid = parsed.srid;
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(`Could not parse ${field}: ${reason}`, field);
+  }
+
+  if (shapePaths(shape).every((path) => path.length < 2)) {
+    throw new ValidationError(`${field} has no coordinates`, field);
+  }
+
+  const inputCrs = srid === undefined ? crs : INPUT_CRS.find((supported) => supported === `EPSG:${srid}`);
+  if (!inputCrs) throw new ValidationError(`${field} SRID ${srid} is not supported — use ${INPUT_CRS.join(' or ')}`, field);
+
+  if (inputCrs === 'EPSG:3006' && !isGpx) return shape;
+
+  return mapShapeCoordinates(shape, ([lon, lat]) => {
+    const point = wgs84ToSweref99({ latitude: lat, longitude: lon });
+    return [point.x, point.y];
+  });
+}
+
+/**
+ * Parse a clip area — a WGS84 bbox or WGS84 polygon WKT/GeoJSON — into a SWEREF99TM multipolygon
+ *
+ * The bbox is validated as in wgs84BboxToSweref99 and its edges are densified, so the
+ * clip follows the parallels and meridians rather than a straight SWEREF99TM line.
+ */
+export function parseClipInput(clip: Wgs84Bbox | string, field: string): MultiPolygonCoords {
+  if (typeof clip === 'string') {
+    const shape = parseShapeInput(clip, 'EPSG:4326', field);
+    if (shape.type !== 'polygon') throw new ValidationError(`${field} must be a polygon or bbox, not a line`, field);
+    return shape.coordinates;
+  }
+
+  try {
+    wgs84BboxToSweref99(clip);
+  } catch (error) {
+    if (error instanceof ValidationError) throw new ValidationError(error.message, field);
+    throw error;
+  }
+
+  const corners: [number, number][] = [
+    [clip.minLon, clip.minLat],
+    [clip.maxLon, clip.minLat],
+    [clip.maxLon, clip.maxLat],
+    [clip.minLon, clip.maxLat],
+  ];
+  const ring: Ring = [];
+  corners.forEach(([lon, lat], i) => {
+    const [nextLon, nextLat] = corners[(i + 1) % corners.length];
+    for (let step = 0; step < BBOX_EDGE_POINTS; step++) {
+      const t = step / BBOX_EDGE_POINTS;
+      const point = wgs84ToSweref99({ latitude: lat + (nextLat - lat) * t, longitude: lon + (nextLon - lon) * t });
+      ring.push([point.x, point.y]);
+    }
+  });
+  ring.push(ring[0]);
+  return [[ring]];
+}
@@ -0,0 +1,109 @@
+/**
+ * Cross-source site linking
+ *
+ * The same physical site is often designated several times — a national park that is
+ * also a Natura 2000 SCI and a Ramsar wetland. Designations are linked by comparing
+ * their polygons (SWEREF99TM metres), since the sources share no common identifier.
+ */
+
+import {
+  multiPolygonArea,
+  multiPolygonBoundingBox,
+  boundingBoxesOverlap,
+  intersectMultiPolygons,
+  round,
+  type MultiPolygonCoords,
+} from './geometry';
+
+/** Intersection over union at or above which two designations count as the same site */
+const SAME_SITE_IOU = 0.5;
+
+/** Share of the smaller area inside the larger at or above which one designation contains the other */
+const CONTAINED_SHARE = 0.9;
+
+/** Overlaps below this share of the smaller area are boundary slivers from digitisation, not real overlap */
+const MIN_OVERLAP_SHARE = 0.01;
+
+/**
+ * How area B relates to area A
+ *
+ * same_site: near-identical boundaries. contains: B lies (almost) entirely inside A.
+ * within: A lies (almost) entirely inside B. overlaps: partial overlap.
+ */
+export type SiteRelation = 'same_site' | 'contains' | 'within' | 'overlaps';
+
+export interface AreaOverlap {
+  relation: SiteRelation;
+  iou: number;
+  overlap_ha: number;
+  overlap_pct_of_this: number;
+  overlap_pct_of_other: number;
+}
+
+/**
+ * Compare two designations by area-weighted overlap
+ *
+ * Returns null when they do not overlap beyond boundary slivers.
+ */
+export function compareAreas(a: MultiPolygonCoords, b: MultiPolygonCoords): AreaOverlap | null {
+  if (a.length === 0 || b.length === 0) return null;
+  if (!boundingBoxesOverlap(multiPolygonBoundingBox(a), multiPolygonBoundingBox(b))) return null;
+
+  const areaA = multiPolygonArea(a);
+  const areaB = multiPolygonArea(b);
+  const overlap = multiPolygonArea(intersectMultiPolygons(a, b));
+  if (areaA === 0 || areaB === 0 || overlap < MIN_OVERLAP_SHARE * Math.min(areaA, areaB)) return null;
+
+  const iou = overlap / (areaA + areaB - overlap);
+  const shareOfA = overlap / areaA;
+  const shareOfB = overlap / areaB;
+
+  let relation: SiteRelation = 'overlaps';
+  if (iou >= SAME_SITE_IOU) relation = 'same_site';
+  else if (shareOfB >= CONTAINED_SHARE) relation = 'contains';
+  else if (shareOfA >= CONTAINED_SHARE) relation = 'within';
+
+  return {
+    relation,
+    iou: round(iou, 3),
+    overlap_ha: round(overlap / 10_000, 2),
+    overlap_pct_of_this: round(shareOfA * 100, 1),
+    overlap_pct_of_other: round(shareOfB * 100, 1),
+  };
+}
+
+/**
+ * Whether an overlap is strong enough to put both designations in one site
+ *
+ * Partial overlaps are reported but do not merge sites — a long river reserve crossing
+ * a forest SCI is two sites, not one.
+ */
+export function isSameSiteLink(overlap: AreaOverlap): boolean {
+  return overlap.relation !== 'overlaps';
+}
+
+/**
+ * Group items into clusters from pairwise links (union-find), in order of first appearance
+ */
+export function clusterLinked(count: number, links: [number, number][]): number[][] {
+  const parent = Array.from({ length: count }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (const [a, b] of links) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  }
+
+  const clusters = new Map<number, number[]>();
+  for (let i = 0; i < count; i++) {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), i]);
+  }
+  return Array.from(clusters.values());
+}
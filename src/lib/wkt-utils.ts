@@ -3,7 +3,10 @@
  *
  * Includes:
  * - Client-side bounding box calculation (workaround for NVV API bug)
- * - WKT coordinate conversion from SWEREF99TM to WGS84
+ * - WKT coordinate conversion from SWEREF99TM to WGS84 and the SWEREF99 local zones
+ * - Checking upstream WKT before it is used
+ *
+ * WKT is parsed with the geometry model (geometry-model.ts), never pattern-matched.
  *
  * WORKAROUND: The NVV API's /omrade/extentAsWkt endpoint fails with Oracle
  * error ORA-28579 when called with multiple area IDs.
@@ -13,7 +16,9 @@
  * If it returns valid WKT (starting with "POLYGON") instead of Oracle error, the bug is fixed.
  */
 
-import { sweref99ToWgs84 } from './coordinates';
+import { sweref99ToWgs84, sweref99ToLocalZone, CRS_SWEREF99TM, CRS_WGS84, type OutputCrs } from './coordinates';
+import { UpstreamApiError } from './errors';
+import { parseWkt, formatWkt, mapPositions, geometryBoundingBox, toMultiPolygon, type Position } from './geometry-model';
 
 export interface BoundingBox {
   minX: number;
@@ -25,36 +30,10 @@ export interface BoundingBox {
 /**
  * WORKAROUND: Extract bounding box from WKT geometry string
  *
- * Parses POLYGON or MULTIPOLYGON WKT and extracts min/max coordinates.
- * Works by finding all coordinate pairs and computing their bounds.
+ * Bounds every coordinate of the geometry, whatever its type.
  */
 export function extractBoundingBoxFromWkt(wkt: string): BoundingBox {
-  // Match all coordinate pairs: "number number"
-  const coordPattern = /(-?\d+\.?\d*)\s+(-?\d+\.?\d*)/g;
-
-  let minX = Infinity;
-  let maxX = -Infinity;
-  let minY = Infinity;
-  let maxY = -Infinity;
-  let matchCount = 0;
-
-  let match: RegExpExecArray | null;
-  while ((match = coordPattern.exec(wkt)) !== null) {
-    const x = parseFloat(match[1]);
-    const y = parseFloat(match[2]);
-
-    minX = Math.min(minX, x);
-    maxX = Math.max(maxX, x);
-    minY = Math.min(minY, y);
-    maxY = Math.max(maxY, y);
-    matchCount++;
-  }
-
-  if (matchCount === 0) {
-    throw new Error('No coordinates found in WKT string');
-  }
-
-  return { minX, maxX, minY, maxY };
+  return geometryBoundingBox(parseWkt(wkt));
 }
 
 /**
@@ -80,36 +59,109 @@ export function combineBoundingBoxes(boxes: BoundingBox[]): BoundingBox {
  * WORKAROUND: Convert bounding box to WKT POLYGON string
  *
  * Creates a rectangular polygon from the bounding box coordinates.
- * Format matches NVV API output: POLYGON (( x1 y1, x2 y1, x2 y2, x1 y2, x1 y1))
  */
 export function boundingBoxToWkt(box: BoundingBox): string {
   const { minX, maxX, minY, maxY } = box;
-  return `POLYGON (( ${minX} ${minY}, ${maxX} ${minY}, ${maxX} ${maxY}, ${minX} ${maxY}, ${minX} ${minY}))`;
+  return formatWkt({
+    type: 'Polygon',
+    coordinates: [
+      [
+        [minX, minY],
+        [maxX, minY],
+        [maxX, maxY],
+        [minX, maxY],
+        [minX, minY],
+      ],
+    ],
+  });
 }
 
 /**
- * Convert WKT geometry from SWEREF99TM to WGS84
+ * Check WKT from an upstream API and return it in canonical form
  *
- * Parses WKT string, converts each coordinate pair from SWEREF99TM (x, y)
- * to WGS84 (longitude, latitude), and reconstructs the WKT string.
+ * The geometry must parse, be polygonal (POLYGON, MULTIPOLYGON or a collection of them)
+ * and not be empty. Z/M ordinates and an EWKT SRID prefix are dropped — upstream WKT is
+ * always SWEREF99TM. Anything else is reported as an upstream failure rather than being
+ * passed on to produce wrong results further down.
+ */
+export function normalizeUpstreamWkt(wkt: string, upstream: string): string {
+  try {
+    const geometry = parseWkt(wkt);
+    if (toMultiPolygon(geometry).length === 0) throw new Error('geometry is empty');
+    return formatWkt(geometry);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new UpstreamApiError(
+      `The data service returned a malformed area geometry (${reason}). Try again later.`,
+      200,
+      upstream,
+      { wkt: wkt.slice(0, 100) },
+    );
+  }
+}
+
+/**
+ * Round a reprojected position to a fixed number of decimals
+ */
+function roundPosition([x, y]: Position, decimals: number): Position {
+  return [Number(x.toFixed(decimals)), Number(y.toFixed(decimals))];
+}
+
+/**
+ * Convert WKT geometry from SWEREF99TM to WGS84
  *
- * Supports POLYGON, MULTIPOLYGON, POINT, LINESTRING, and other common WKT types.
- * Preserves geometry structure and formatting.
+ * Converts each coordinate from SWEREF99TM (x, y) to WGS84 (longitude, latitude),
+ * keeping the geometry structure. Works for every WKT geometry type.
  */
 export function convertWktToWgs84(wkt: string): string {
-  // Match all coordinate pairs: "number number" (x y in SWEREF99TM)
-  // Capture groups: (x-coordinate) (y-coordinate)
-  const coordPattern = /(-?\d+\.?\d*)\s+(-?\d+\.?\d*)/g;
+  return formatWkt(
+    mapPositions(parseWkt(wkt), ([x, y]) => {
+      const wgs84 = sweref99ToWgs84({ x, y });
 
-  return wkt.replace(coordPattern, (_match, xStr: string, yStr: string) => {
-    const x = parseFloat(xStr);
-    const y = parseFloat(yStr);
+      // WKT uses "x y" format which is "longitude latitude" for WGS84
+      // Round to 6 decimal places (about 11cm precision)
+      return roundPosition([wgs84.longitude, wgs84.latitude], 6);
+    }),
+  );
+}
 
-    // Convert from SWEREF99TM to WGS84
-    const wgs84 = sweref99ToWgs84({ x, y });
+/**
+ * Convert WKT geometry from SWEREF99TM to any supported output CRS
+ *
+ * EPSG:3006 is returned untouched (no reprojection, no precision loss). SWEREF99
+ * local zones are rounded to centimetres, WGS84 as in convertWktToWgs84.
+ */
+export function convertWktFromSweref99(wkt: string, crs: OutputCrs): string {
+  if (crs === CRS_SWEREF99TM) return wkt;
+  if (crs === CRS_WGS84) return convertWktToWgs84(wkt);
+  return formatWkt(mapPositions(parseWkt(wkt), (position) => roundPosition(sweref99ToLocalZone(position, crs), 2)));
+}
+
+/**
+ * Convert a SWEREF99TM bounding box to any supported output CRS
+ *
+ * The box's corners are reprojected and re-enclosed, so the result covers the
+ * original box (slightly larger, as the box is not axis-aligned in other CRS).
+ */
+export function convertBoundingBoxFromSweref99(box: BoundingBox, crs: OutputCrs): BoundingBox {
+  if (crs === CRS_SWEREF99TM) return box;
 
-    // WKT uses "x y" format which is "longitude latitude" for WGS84
-    // Round to 6 decimal places (about 11cm precision)
-    return `${wgs84.longitude.toFixed(6)} ${wgs84.latitude.toFixed(6)}`;
+  const corners: [number, number][] = [
+    [box.minX, box.minY],
+    [box.maxX, box.minY],
+    [box.maxX, box.maxY],
+    [box.minX, box.maxY],
+  ];
+  const projected = corners.map(([x, y]) => {
+    if (crs !== CRS_WGS84) return sweref99ToLocalZone([x, y], crs);
+    const wgs84 = sweref99ToWgs84({ x, y });
+    return [wgs84.longitude, wgs84.latitude];
   });
+
+  return {
+    minX: Math.min(...projected.map(([x]) => x)),
+    maxX: Math.max(...projected.map(([x]) => x)),
+    minY: Math.min(...projected.map(([, y]) => y)),
+    maxY: Math.max(...projected.map(([, y]) => y)),
+  };
 }
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { withErrorHandling } from '@/lib/response';
+import { ValidationError } from '@/lib/errors';
+import { runWithConcurrency, NVV_API_CONCURRENCY } from '@/lib/concurrency';
+import { toFeatureCollection, type GeoJsonFeature } from '@/lib/geojson';
+import { detailInputSchema, fetchAreaDetail, resolveDetailOptions, validateIncludeForSource, type DetailInput } from './detail';
+
+/** Max areas per batch call. Override with NVV_BATCH_MAX_AREAS. */
+const MAX_BATCH_AREAS = Number(process.env.NVV_BATCH_MAX_AREAS) || 50;
+
+export const detailBatchInputSchema = {
+  areas: z
+    .array(z.object({ id: detailInputSchema.id, source: detailInputSchema.source }))
+    .describe(`Areas to fetch as {id, source} pairs from nvv_search results (max ${MAX_BATCH_AREAS})`),
+  include: detailInputSchema.include,
+  geometryDetail: detailInputSchema.geometryDetail,
+  maxPoints: detailInputSchema.maxPoints,
+  maxTokens: detailInputSchema.maxTokens,
+  clip: detailInputSchema.clip,
+  outputFormat: detailInputSchema.outputFormat,
+  outputCrs: detailInputSchema.outputCrs,
+  fresh: detailInputSchema.fresh,
+};
+
+export const detailBatchTool = {
+  name: 'nvv_detail_batch',
+  description:
+    'Get details for many protected areas in one call, e.g., to compare the reserves in a kommun. ' +
+    'Pass a list of {id, source} pairs from nvv_search plus the same include/geometryDetail/maxPoints options as nvv_detail ' +
+    "(tip: include specific sections and geometryDetail='none' to keep the response small). " +
+    'Returns one result per area in input order; an area that fails gets an error entry instead of failing the batch. ' +
+    'If the call runs out of time, the areas fetched so far are returned with cancelled=true. ' +
+    "With outputFormat='geojson', all geometries are returned together as one GeoJSON FeatureCollection. " +
+    `Max ${MAX_BATCH_AREAS} areas.`,
+  inputSchema: detailBatchInputSchema,
+};
+
+type DetailBatchInput = {
+  areas: { id: string; source: DetailInput['source'] }[];
+  include?: DetailInput['include'];
+  geometryDetail?: DetailInput['geometryDetail'];
+  maxPoints?: DetailInput['maxPoints'];
+  maxTokens?: DetailInput['maxTokens'];
+  clip?: DetailInput['clip'];
+  outputFormat?: DetailInput['outputFormat'];
+  outputCrs?: DetailInput['outputCrs'];
+  fresh?: DetailInput['fresh'];
+};
+
+type AreaError = {
+  id: string;
+  source: string;
+  error: { code: string; message: string };
+};
+
+export const detailBatchHandler = withErrorHandling(async (args: DetailBatchInput, signal: AbortSignal) => {
+  // Drop repeated id + source pairs, keeping the first
+  const areas = args.areas.filter((area, i, all) => all.findIndex((a) => a.id === area.id && a.source === area.source) === i);
+
+  if (areas.length === 0) {
+    throw new ValidationError('areas must contain at least one {id, source} pair', 'areas');
+  }
+  if (areas.length > MAX_BATCH_AREAS) {
+    throw new ValidationError(
+      `Too many areas (${areas.length}). Maximum ${MAX_BATCH_AREAS} per batch — split into several calls.`,
+      'areas',
+    );
+  }
+  // Options shared by every area are checked once, so a bad one fails the call instead of each area.
+  // Sections unavailable for some sources stay per-area errors, unless no source in the batch has them.
+  const { include } = resolveDetailOptions(args);
+  const includeErrors = Array.from(new Set(areas.map((area) => area.source))).map((source) => {
+    try {
+      validateIncludeForSource(include, source);
+      return undefined;
+    } catch (error) {
+      return error;
+    }
+  });
+  if (includeErrors.every((error) => error !== undefined)) throw includeErrors[0];
+
+  const results = await runWithConcurrency(
+    areas.map(
+      ({ id, source }) =>
+        (): Promise<Record<string, unknown> | AreaError> =>
+          fetchAreaDetail({
+            id,
+            source,
+            include: args.include,
+            geometryDetail: args.geometryDetail,
+            maxPoints: args.maxPoints,
+            maxTokens: args.maxTokens,
+            clip: args.clip,
+            outputFormat: args.outputFormat,
+            outputCrs: args.outputCrs,
+          }).catch((error: unknown) => ({
+            id,
+            source,
+            error: {
+              code: error instanceof Error && 'code' in error ? String(error.code) : 'INTERNAL_ERROR',
+              message: error instanceof Error ? error.message : String(error),
+            },
+          })),
+    ),
+    NVV_API_CONCURRENCY,
+  );
+
+  const failedCount = results.filter((result) => 'error' in result).length;
+
+  // GeoJSON: move each area's Feature into one collection, ready to load as a map layer
+  const features: GeoJsonFeature[] = [];
+  if (args.outputFormat === 'geojson') {
+    for (const result of results) {
+      if ('geometry' in result) {
+        // Null when a clip left nothing of the area
+        if (result.geometry) features.push(result.geometry as GeoJsonFeature);
+        delete result.geometry;
+      }
+    }
+  }
+
+  return {
+    total_count: results.length,
+    succeeded_count: results.length - failedCount,
+    failed_count: failedCount,
+    // Stopped early: areas not fetched in time have CANCELLED error entries
+    ...(signal.aborted && { cancelled: true }),
+    areas: results,
+    ...(args.outputFormat === 'geojson' && { geometries: toFeatureCollection(features) }),
+  };
+});
@@ -3,9 +3,39 @@ import { nvvClient } from '@/clients/nvv-client';
 import { n2000Client } from '@/clients/n2000-client';
 import { ramsarClient } from '@/clients/ramsar-client';
 import { withErrorHandling } from '@/lib/response';
-import { ValidationError } from '@/lib/errors';
+import { McpToolError, ValidationError, UpstreamApiError } from '@/lib/errors';
+import { runWithConcurrency, NVV_API_CONCURRENCY } from '@/lib/concurrency';
+import { currentSignal, sleep } from '@/lib/cancellation';
 import { DEFAULT_DECISION_STATUS } from '@/types/nvv-api';
-import { simplifyWkt } from '@/lib/geometry-simplify';
+import {
+  simplifyWktWithStats,
+  simplifyWktToPointBudget,
+  countWktPoints,
+  METRIC_TOLERANCE,
+  type SimplifyResult,
+} from '@/lib/geometry-simplify';
+import { wktToFeature, validateOutputCrs, OUTPUT_FORMATS, type OutputFormat } from '@/lib/geojson';
+import {
+  OUTPUT_CRS,
+  CRS_WGS84,
+  CRS_SWEREF99TM,
+  crsLabel,
+  sweref99ToWgs84,
+  sweref99ToLocalZone,
+  type OutputCrs,
+  type Wgs84Bbox,
+} from '@/lib/coordinates';
+import { convertWktFromSweref99, convertBoundingBoxFromSweref99, type BoundingBox } from '@/lib/wkt-utils';
+import {
+  parseWktPolygons,
+  formatWktPolygons,
+  intersectMultiPolygons,
+  type MultiPolygonCoords,
+  type Position,
+} from '@/lib/geometry';
+import { computeAreaMetrics, checkArea, ellipsoidalAreaHa } from '@/lib/area-metrics';
+import { parseClipInput } from '@/lib/shape-input';
+import { getAreaGeometry, findRelatedAreas } from '@/clients/geometry-search';
 
 const SOURCES = ['national', 'n2000', 'ramsar'] as const;
 type Source = (typeof SOURCES)[number];
@@ -19,29 +49,58 @@ const INCLUDE_TYPES = [
   'env_goals',
   'species',
   'habitats',
+  'related_areas',
+  'metrics',
   'all',
 ] as const;
 type IncludeType = (typeof INCLUDE_TYPES)[number];
+type Section = Exclude<IncludeType, 'all'>;
 
-const NATIONAL_ONLY: IncludeType[] = ['purposes', 'regulations', 'env_goals'];
-const N2000_ONLY: IncludeType[] = ['species', 'habitats'];
-const RAMSAR_INCOMPATIBLE: IncludeType[] = ['documents', 'purposes', 'regulations', 'env_goals', 'species', 'habitats'];
+/** Sections available per source, in fetch order */
+const SOURCE_SECTIONS: Record<Source, Section[]> = {
+  national: ['geometry', 'metrics', 'purposes', 'land_cover', 'regulations', 'env_goals', 'documents', 'related_areas'],
+  n2000: ['species', 'habitats', 'land_cover', 'geometry', 'metrics', 'documents', 'related_areas'],
+  ramsar: ['geometry', 'metrics', 'land_cover', 'related_areas'],
+};
+
+/** Sections left out of 'all' and fetched only when named — related_areas runs WFS geometry searches in every source */
+const OPT_IN_SECTIONS: Section[] = ['related_areas'];
+
+const SOURCE_LABELS: Record<Source, string> = {
+  national: 'national',
+  n2000: 'Natura 2000',
+  ramsar: 'Ramsar',
+};
+
+/** Extra attempts for sections that failed, and the pause before retrying */
+const SECTION_RETRIES = 1;
+const SECTION_RETRY_DELAY_MS = 500;
 
 const GEOMETRY_DETAIL = ['full', 'simplified', 'none'] as const;
 type GeometryDetail = (typeof GEOMETRY_DETAIL)[number];
 
+/** Smallest budgets accepted: one valid ring, and enough tokens for one small polygon */
+const MIN_MAX_POINTS = 4;
+const MIN_MAX_TOKENS = 50;
+
+/** Rough LLM tokenizer ratio for coordinate text (digits tokenize poorly) */
+const CHARS_PER_TOKEN = 3;
+
 export const detailInputSchema = {
   id: z.string().describe("Area identifier from nvv_search results (e.g., '2000019', 'SE0110001', '15')"),
   source: z.enum(SOURCES).describe("Source from nvv_search results: 'national', 'n2000', or 'ramsar'"),
   include: z
-    .enum(INCLUDE_TYPES)
+    .union([z.enum(INCLUDE_TYPES), z.array(z.enum(INCLUDE_TYPES))])
     .optional()
     .describe(
-      'What to fetch. Default: all. ' +
+      "What to fetch: one section or a list (e.g., ['species', 'habitats']). Default: all (except related_areas). " +
         'National + N2000: geometry, land_cover, documents. ' +
         'Ramsar: geometry, land_cover. ' +
         'National only: purposes, regulations, env_goals. ' +
-        'N2000 only: species, habitats.',
+        'N2000 only: species, habitats. ' +
+        'All sources: related_areas (designations in other sources covering the same site, by polygon overlap; ' +
+        "not part of 'all' — name it, e.g. ['all', 'related_areas']), " +
+        'metrics (centroid, interior point, bbox, perimeter and area computed from the polygon — no need to download it).',
     ),
   geometryDetail: z
     .enum(GEOMETRY_DETAIL)
@@ -50,6 +109,56 @@ export const detailInputSchema = {
       "Geometry detail level. 'simplified' (default): reduces coordinates by ~90-96% via Douglas-Peucker, saving tokens. " +
         "'full': all coordinates. 'none': skip geometry entirely (saves API call).",
     ),
+  maxPoints: z
+    .number()
+    .optional()
+    .describe(
+      `Point budget for the simplified geometry (min ${MIN_MAX_POINTS}). The tolerance is picked automatically ` +
+        'to keep as much detail as fits. Replaces the fixed ~100 m tolerance of geometryDetail=simplified.',
+    ),
+  maxTokens: z
+    .number()
+    .optional()
+    .describe(
+      `Approximate token budget for the geometry text (min ${MIN_MAX_TOKENS}), converted to a point budget ` +
+        'for the chosen outputFormat and outputCrs. Use instead of maxPoints.',
+    ),
+  clip: z
+    .union([
+      z.object({
+        minLat: z.number().describe('South edge, WGS84 latitude'),
+        minLon: z.number().describe('West edge, WGS84 longitude'),
+        maxLat: z.number().describe('North edge, WGS84 latitude'),
+        maxLon: z.number().describe('East edge, WGS84 longitude'),
+      }),
+      z.string(),
+    ])
+    .optional()
+    .describe(
+      'Return only the part of the geometry inside this area: a WGS84 bbox {minLat, minLon, maxLat, maxLon} ' +
+        'or a WGS84 polygon as WKT or GeoJSON. The response reports the clipped and total area.',
+    ),
+  outputFormat: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe(
+      "Geometry format. 'wkt' (default): WKT string. " +
+        "'geojson': RFC 7946 Feature with the area's properties attached (for maps and GIS tools).",
+    ),
+  outputCrs: z
+    .enum(OUTPUT_CRS)
+    .optional()
+    .describe(
+      "Geometry coordinate system: 'EPSG:4326' (WGS84, default), 'EPSG:3006' (SWEREF99 TM, native — no reprojection) " +
+        "or a SWEREF99 local zone EPSG:3007-3018. Only with outputFormat='wkt': GeoJSON (RFC 7946) is always WGS84.",
+    ),
+  fresh: z
+    .boolean()
+    .optional()
+    .describe(
+      'Skip cached upstream responses and fetch everything again (default false). ' +
+        'Only needed when cached_at in a previous response is too old, e.g. right after a new decision.',
+    ),
 };
 
 export const detailTool = {
@@ -59,45 +168,338 @@ export const detailTool = {
     'Pass the id and source from nvv_search results. ' +
     'Returns geometry, land cover, documents, and source-specific data ' +
     '(national: purposes, regulations, env_goals; N2000: species, habitats). ' +
-    'Use include parameter to fetch specific data or all at once. ' +
-    "Geometry is simplified by default (~90-96% smaller). Use geometryDetail='full' for precise boundaries or 'none' to skip.",
+    'related_areas links the same physical site across sources (e.g., the national park, SE-code and Ramsar id ' +
+    'for one place) with relation same_site/contains/within/overlaps and IoU from polygon overlap; ' +
+    "it is fetched only when named in include, not with 'all'. " +
+    "include='metrics' answers where an area is and how big it is without the full polygon, " +
+    'and checks the computed area against the upstream figure. ' +
+    'Use include to fetch one section, a list of sections, or all at once. ' +
+    'If some sections fail, the rest are still returned and the failures are listed in errors. ' +
+    "Geometry is simplified by default (~90-96% smaller). Use geometryDetail='full' for precise boundaries or 'none' to skip. " +
+    'Pass maxPoints or maxTokens to fit the geometry to a budget; geometry_stats reports the point counts and ' +
+    'the largest deviation from the true boundary in metres, and over_budget when the budget cannot be met. ' +
+    'Simplified geometry is checked for validity (self-intersections, holes outside shells, slivers) and repaired ' +
+    'if needed; geometry_stats.repaired flags it. ' +
+    'Pass clip (WGS84 bbox or polygon) to get only the part of a large area inside a viewport. ' +
+    "Set outputFormat='geojson' to get the geometry as a GeoJSON Feature instead of WKT. " +
+    'Responses served partly from cache carry cached_at; pass fresh=true to refetch.',
   inputSchema: detailInputSchema,
 };
 
-type DetailInput = {
+export type DetailInput = {
   id: string;
   source: Source;
-  include?: IncludeType;
+  include?: IncludeType | IncludeType[];
   geometryDetail?: GeometryDetail;
+  maxPoints?: number;
+  maxTokens?: number;
+  clip?: Wgs84Bbox | string;
+  outputFormat?: OutputFormat;
+  outputCrs?: OutputCrs;
+  fresh?: boolean;
 };
 
-function applyGeometryDetail(wkt: string, detail: GeometryDetail): string {
-  return detail === 'simplified' ? simplifyWkt(wkt) : wkt;
+type GeometryOptions = {
+  detail: GeometryDetail;
+  maxPoints?: number;
+  maxTokens?: number;
+  clip?: MultiPolygonCoords; // SWEREF99TM
+  format: OutputFormat;
+  crs: OutputCrs;
+};
+
+/** Fetches one section, returning the result fields it adds */
+type SectionFetcher = () => Promise<Record<string, unknown>>;
+
+type SectionError = {
+  section: Section;
+  message: string;
+};
+
+/**
+ * Simplify native SWEREF99TM geometry, so tolerances and deviations are in metres
+ *
+ * A token budget is turned into a point budget using the characters per point of the
+ * full geometry as it would be returned (format and CRS change the text length).
+ */
+function simplifyGeometry(wkt: string, options: GeometryOptions): SimplifyResult {
+  if (options.maxPoints !== undefined) return simplifyWktToPointBudget(wkt, options.maxPoints);
+  if (options.maxTokens === undefined) return simplifyWktWithStats(wkt, METRIC_TOLERANCE);
+
+  const output = convertWktFromSweref99(wkt, options.crs);
+  const text = options.format === 'geojson' ? JSON.stringify(wktToFeature(output, {}).geometry) : output;
+  const charsPerPoint = text.length / Math.max(1, countWktPoints(wkt));
+  const maxPoints = Math.floor((options.maxTokens * CHARS_PER_TOKEN) / charsPerPoint);
+  return simplifyWktToPointBudget(wkt, Math.max(MIN_MAX_POINTS, maxPoints));
 }
 
-function validateIncludeForSource(include: IncludeType, source: Source): void {
-  if (source === 'ramsar' && RAMSAR_INCOMPATIBLE.includes(include)) {
-    throw new ValidationError(
-      `'${include}' is not available for Ramsar areas. For Ramsar areas use: geometry, land_cover, all`,
-    );
+/**
+ * Geometry section fetcher, or none when geometryDetail is 'none'
+ *
+ * `getWkt` returns the native SWEREF99TM geometry, reprojected here to the output CRS.
+ * GeoJSON features carry the area's base fields (as they are when this is called) as properties.
+ */
+function geometrySection(
+  getWkt: () => Promise<string>,
+  options: GeometryOptions,
+  result: Record<string, unknown>,
+): Partial<Record<Section, SectionFetcher>> {
+  if (options.detail === 'none') return {};
+  const properties = Object.fromEntries(Object.entries(result).filter(([key]) => key !== 'coordinate_system'));
+  return {
+    geometry: async () => {
+      const clipped = options.clip ? clipGeometry(await getWkt(), options.clip) : undefined;
+      if (clipped?.wkt === null) {
+        return { geometry: null, clip: clipped.summary, clip_note: 'The area does not overlap the clip area.' };
+      }
+
+      const native = clipped?.wkt ?? (await getWkt());
+      const simplified = options.detail === 'simplified' ? simplifyGeometry(native, options) : undefined;
+      const wkt = convertWktFromSweref99(simplified?.wkt ?? native, options.crs);
+      return {
+        geometry: options.format === 'geojson' ? wktToFeature(wkt, properties) : wkt,
+        ...(clipped && { clip: clipped.summary }),
+        ...(simplified && {
+          geometry_stats: {
+            original_points: simplified.originalPoints,
+            returned_points: simplified.returnedPoints,
+            max_deviation_m: Math.round(simplified.maxDeviation * 10) / 10,
+            repaired: simplified.repairs.length > 0,
+            ...(simplified.repairs.length > 0 && { repairs: simplified.repairs }),
+            ...(simplified.overBudget && { over_budget: true }),
+          },
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Cut a SWEREF99TM geometry to the clip area, reporting the area kept
+ *
+ * `wkt` is null when nothing of the area lies inside the clip.
+ */
+function clipGeometry(wkt: string, clip: MultiPolygonCoords) {
+  const polygons = parseWktPolygons(wkt);
+  const clipped = intersectMultiPolygons(polygons, clip);
+  const totalHa = ellipsoidalAreaHa(polygons);
+  const clippedHa = ellipsoidalAreaHa(clipped);
+  return {
+    wkt: clipped.length > 0 ? formatWktPolygons(clipped) : null,
+    summary: {
+      total_area_ha: Math.round(totalHa * 100) / 100,
+      clipped_area_ha: Math.round(clippedHa * 100) / 100,
+      clipped_pct: totalHa > 0 ? Math.round((clippedHa / totalHa) * 1000) / 10 : 0,
+    },
+  };
+}
+
+/**
+ * Metrics section fetcher: positions in the output CRS, sizes in km and hectares
+ */
+function metricsSection(getWkt: () => Promise<string>, crs: OutputCrs, upstreamHa: number | null): SectionFetcher {
+  return async () => {
+    const metrics = computeAreaMetrics(parseWktPolygons(await getWkt()));
+    return {
+      metrics: {
+        centroid: outputPoint(metrics.centroid, crs),
+        interior_point: outputPoint(metrics.interiorPoint, crs),
+        bbox: outputBoundingBox(metrics.bbox, crs),
+        perimeter_km: Math.round(metrics.perimeterKm * 1000) / 1000,
+        area_ha: Math.round(metrics.areaHa * 100) / 100,
+        ...(upstreamHa !== null && upstreamHa > 0 && { area_check: checkArea(upstreamHa, metrics.areaHa) }),
+      },
+    };
+  };
+}
+
+function outputPoint([x, y]: Position, crs: OutputCrs): Record<string, number> {
+  if (crs === CRS_WGS84) {
+    const { latitude, longitude } = sweref99ToWgs84({ x, y });
+    return { latitude: Number(latitude.toFixed(6)), longitude: Number(longitude.toFixed(6)) };
   }
-  if (source !== 'national' && NATIONAL_ONLY.includes(include)) {
-    const available =
-      source === 'n2000' ? 'geometry, land_cover, documents, species, habitats, all' : 'geometry, land_cover, all';
-    throw new ValidationError(`'${include}' is only available for national areas. ` + `For ${source} areas use: ${available}`);
+  const [easting, northing] = crs === CRS_SWEREF99TM ? [x, y] : sweref99ToLocalZone([x, y], crs);
+  return { x: Number(easting.toFixed(2)), y: Number(northing.toFixed(2)) };
+}
+
+function outputBoundingBox(box: BoundingBox, crs: OutputCrs): Record<string, number> {
+  const { minX, minY, maxX, maxY } = convertBoundingBoxFromSweref99(box, crs);
+  if (crs === CRS_WGS84) {
+    return {
+      minLat: Number(minY.toFixed(6)),
+      minLon: Number(minX.toFixed(6)),
+      maxLat: Number(maxY.toFixed(6)),
+      maxLon: Number(maxX.toFixed(6)),
+    };
   }
-  if (source !== 'n2000' && N2000_ONLY.includes(include)) {
-    const available =
-      source === 'national'
-        ? 'geometry, land_cover, documents, purposes, regulations, env_goals, all'
-        : 'geometry, land_cover, all';
-    throw new ValidationError(
-      `'${include}' is only available for Natura 2000 areas. ` + `For ${source} areas use: ${available}`,
+  return {
+    minX: Number(minX.toFixed(2)),
+    minY: Number(minY.toFixed(2)),
+    maxX: Number(maxX.toFixed(2)),
+    maxY: Number(maxY.toFixed(2)),
+  };
+}
+
+/**
+ * Share one upstream fetch between the sections that need it (geometry and metrics)
+ *
+ * A failed fetch is forgotten, so a section retry fetches again.
+ */
+function sharedFetch<T>(fetch: () => Promise<T>): () => Promise<T> {
+  let pending: Promise<T> | null = null;
+  return () => {
+    pending ??= fetch().catch((error: unknown) => {
+      pending = null;
+      throw error;
+    });
+    return pending;
+  };
+}
+
+/**
+ * Validate point/token budgets: whole numbers above the minimum, only with simplified geometry
+ */
+function validateGeometryBudget(args: Pick<DetailInput, 'maxPoints' | 'maxTokens'>, detail: GeometryDetail): void {
+  if (args.maxPoints !== undefined && args.maxTokens !== undefined) {
+    throw new ValidationError('Pass either maxPoints or maxTokens, not both', 'maxPoints');
+  }
+  const budgets = [
+    ['maxPoints', args.maxPoints, MIN_MAX_POINTS],
+    ['maxTokens', args.maxTokens, MIN_MAX_TOKENS],
+  ] as const;
+  for (const [field, value, min] of budgets) {
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < min) {
+      throw new ValidationError(`${field} must be a whole number of at least ${min}`, field);
+    }
+    if (detail !== 'simplified') {
+      throw new ValidationError(`${field} only applies to geometryDetail='simplified' (got '${detail}')`, field);
+    }
+  }
+}
+
+/**
+ * Validate requested sections against the source, reporting every incompatible one at once
+ */
+export function validateIncludeForSource(include: IncludeType[], source: Source): void {
+  const incompatible = include
+    .filter((section) => section !== 'all' && !SOURCE_SECTIONS[source].includes(section))
+    .filter((section, i, all) => all.indexOf(section) === i);
+  if (incompatible.length === 0) return;
+
+  const described = incompatible.map((section) => {
+    const availableIn = SOURCES.filter((s) => SOURCE_SECTIONS[s].includes(section as Section));
+    return `'${section}' (${availableIn.map((s) => SOURCE_LABELS[s]).join(', ')} only)`;
+  });
+  throw new ValidationError(
+    `${described.join(', ')} ${incompatible.length === 1 ? 'is' : 'are'} not available for ${SOURCE_LABELS[source]} areas. ` +
+      `For ${SOURCE_LABELS[source]} areas use: ${[...SOURCE_SECTIONS[source], 'all'].join(', ')}`,
+    'include',
+  );
+}
+
+/**
+ * Expand include into the source's sections, deduplicated and in fetch order
+ *
+ * 'all' covers every section except the opt-in ones, which must be listed by name.
+ */
+function resolveSections(include: IncludeType[], source: Source): Section[] {
+  const all = include.includes('all');
+  return SOURCE_SECTIONS[source].filter((section) =>
+    OPT_IN_SECTIONS.includes(section) ? include.includes(section) : all || include.includes(section),
+  );
+}
+
+/**
+ * Fetch the requested sections under the shared concurrency limit and merge them into the result
+ *
+ * A failing section does not fail the call: the sections that succeeded are returned and
+ * failures are listed in `errors`. Failed sections are retried (only those) before giving up,
+ * unless the failure is one a retry cannot fix (HTTP 4xx, invalid data, an area not found) or
+ * the HTTP client already retried it. When the call is cancelled, sections fetched so far are
+ * returned and the rest are listed in `errors`.
+ */
+async function fetchSections(
+  result: Record<string, unknown>,
+  sections: Section[],
+  fetchers: Partial<Record<Section, SectionFetcher>>,
+): Promise<Record<string, unknown>> {
+  const errors: SectionError[] = [];
+  let pending = sections.filter((section) => fetchers[section]);
+  const signal = currentSignal();
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    if (attempt > 0) {
+      try {
+        await sleep(SECTION_RETRY_DELAY_MS, signal);
+      } catch (error) {
+        // Cancelled while waiting: keep what was fetched and report the sections left
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(...pending.map((section) => ({ section, message })));
+        break;
+      }
+    }
+
+    const outcomes = await runWithConcurrency(
+      pending.map(
+        (section) => () =>
+          fetchers[section]!().then(
+            (part) => ({ part }),
+            (error: unknown) => ({ error }),
+          ),
+      ),
+      NVV_API_CONCURRENCY,
     );
+
+    const failed: Section[] = [];
+    outcomes.forEach((outcome, i) => {
+      if ('part' in outcome) {
+        Object.assign(result, outcome.part);
+      } else if (attempt < SECTION_RETRIES && isRetryable(outcome.error)) {
+        failed.push(pending[i]);
+      } else {
+        errors.push({
+          section: pending[i],
+          message: outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+        });
+      }
+    });
+    pending = failed;
   }
+
+  result.errors = errors;
+  return result;
+}
+
+/**
+ * Whether a failed section may succeed when fetched again
+ *
+ * Tool errors other than upstream failures (validation, not found, cancellation) are
+ * deterministic; unexpected errors get one more try.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof McpToolError)) return true;
+  if (!(error instanceof UpstreamApiError)) return false;
+  // The HTTP client has already retried what backoff can fix, and an open circuit fails fast anyway
+  const { retries, circuit } = error.details ?? {};
+  if ((typeof retries === 'number' && retries > 0) || circuit === 'open') return false;
+  return error.statusCode < 400 || error.statusCode >= 500;
+}
+
+/**
+ * Designations overlapping this area
+ */
+async function fetchRelatedAreas(source: Source, id: string): Promise<Record<string, unknown>> {
+  const geometry = await getAreaGeometry(source, id);
+  const { related, errors, truncated } = await findRelatedAreas(source, id, geometry);
+  return {
+    related_areas: related,
+    ...(errors.length > 0 && { related_areas_errors: errors }),
+    ...(truncated && { related_areas_note: 'Many areas lie within this area — some related areas may be missing.' }),
+  };
 }
 
-async function fetchNationalDetail(id: string, include: IncludeType, geometryDetail: GeometryDetail) {
+async function fetchNationalDetail(id: string, sections: Section[], geometry: GeometryOptions) {
   const status = DEFAULT_DECISION_STATUS;
   const area = await nvvClient.getArea(id, status);
   const result: Record<string, unknown> = {
@@ -108,62 +510,23 @@ async function fetchNationalDetail(id: string, include: IncludeType, geometryDet
     county: area.county,
     municipalities: area.municipalities,
     area_ha: area.area_ha,
-    coordinate_system: 'EPSG:4326 (WGS84)',
+    coordinate_system: crsLabel(geometry.crs),
   };
 
-  if (include === 'all') {
-    // Batch 1: geometry (if not skipped) + purposes
-    const [geometry, purposes] = await Promise.all([
-      geometryDetail !== 'none' ? nvvClient.getAreaWkt(id, status) : Promise.resolve(null),
-      nvvClient.getAreaPurposes(id, status),
-    ]);
-    // Batch 2: land_cover + regulations
-    const [land_cover, regulations] = await Promise.all([
-      nvvClient.getAreaLandCover(id, status),
-      nvvClient.getAreaRegulations(id, status),
-    ]);
-    // Batch 3: env_goals + documents
-    const [env_goals, documents] = await Promise.all([
-      nvvClient.getAreaEnvironmentalGoals(id, status),
-      nvvClient.getAreaDocuments(id, status),
-    ]);
-    if (geometry) result.geometry = applyGeometryDetail(geometry, geometryDetail);
-    result.purposes = purposes;
-    result.land_cover = land_cover;
-    result.regulations = regulations;
-    result.env_goals = env_goals;
-    result.documents = documents;
-    return result;
-  }
-
-  switch (include) {
-    case 'geometry': {
-      if (geometryDetail !== 'none') {
-        const wkt = await nvvClient.getAreaWkt(id, status);
-        result.geometry = applyGeometryDetail(wkt, geometryDetail);
-      }
-      break;
-    }
-    case 'purposes':
-      result.purposes = await nvvClient.getAreaPurposes(id, status);
-      break;
-    case 'land_cover':
-      result.land_cover = await nvvClient.getAreaLandCover(id, status);
-      break;
-    case 'regulations':
-      result.regulations = await nvvClient.getAreaRegulations(id, status);
-      break;
-    case 'env_goals':
-      result.env_goals = await nvvClient.getAreaEnvironmentalGoals(id, status);
-      break;
-    case 'documents':
-      result.documents = await nvvClient.getAreaDocuments(id, status);
-      break;
-  }
-  return result;
+  const getWkt = sharedFetch(() => nvvClient.getAreaWktSweref99(id, status));
+  return fetchSections(result, sections, {
+    ...geometrySection(getWkt, geometry, result),
+    metrics: metricsSection(getWkt, geometry.crs, area.area_ha),
+    purposes: async () => ({ purposes: await nvvClient.getAreaPurposes(id, status) }),
+    land_cover: async () => ({ land_cover: await nvvClient.getAreaLandCover(id, status) }),
+    regulations: async () => ({ regulations: await nvvClient.getAreaRegulations(id, status) }),
+    env_goals: async () => ({ env_goals: await nvvClient.getAreaEnvironmentalGoals(id, status) }),
+    documents: async () => ({ documents: await nvvClient.getAreaDocuments(id, status) }),
+    related_areas: () => fetchRelatedAreas('national', id),
+  });
 }
 
-async function fetchN2000Detail(kod: string, include: IncludeType, geometryDetail: GeometryDetail) {
+async function fetchN2000Detail(kod: string, sections: Section[], geometry: GeometryOptions) {
   const area = await n2000Client.getArea(kod);
   const result: Record<string, unknown> = {
     id: area.kod,
@@ -173,52 +536,22 @@ async function fetchN2000Detail(kod: string, include: IncludeType, geometryDetai
     county: area.county,
     municipalities: area.municipalities,
     area_ha: area.area_ha,
-    coordinate_system: 'EPSG:4326 (WGS84)',
+    coordinate_system: crsLabel(geometry.crs),
   };
 
-  if (include === 'all') {
-    // Batch 1: species + habitats
-    const [species, habitats] = await Promise.all([n2000Client.getAreaSpecies(kod), n2000Client.getAreaHabitats(kod)]);
-    // Batch 2: land_cover + geometry (if not skipped)
-    const [land_cover, geometry] = await Promise.all([
-      n2000Client.getAreaLandCover(kod),
-      geometryDetail !== 'none' ? n2000Client.getAreaWkt(kod) : Promise.resolve(null),
-    ]);
-    // Batch 3: documents
-    const documents = await n2000Client.getAreaDocuments(kod);
-    result.species = species;
-    result.habitats = habitats;
-    result.land_cover = land_cover;
-    if (geometry) result.geometry = applyGeometryDetail(geometry, geometryDetail);
-    result.documents = documents;
-    return result;
-  }
-
-  switch (include) {
-    case 'species':
-      result.species = await n2000Client.getAreaSpecies(kod);
-      break;
-    case 'habitats':
-      result.habitats = await n2000Client.getAreaHabitats(kod);
-      break;
-    case 'land_cover':
-      result.land_cover = await n2000Client.getAreaLandCover(kod);
-      break;
-    case 'geometry': {
-      if (geometryDetail !== 'none') {
-        const wkt = await n2000Client.getAreaWkt(kod);
-        result.geometry = applyGeometryDetail(wkt, geometryDetail);
-      }
-      break;
-    }
-    case 'documents':
-      result.documents = await n2000Client.getAreaDocuments(kod);
-      break;
-  }
-  return result;
+  const getWkt = sharedFetch(() => n2000Client.getAreaWktSweref99(kod));
+  return fetchSections(result, sections, {
+    species: async () => ({ species: await n2000Client.getAreaSpecies(kod) }),
+    habitats: async () => ({ habitats: await n2000Client.getAreaHabitats(kod) }),
+    land_cover: async () => ({ land_cover: await n2000Client.getAreaLandCover(kod) }),
+    ...geometrySection(getWkt, geometry, result),
+    metrics: metricsSection(getWkt, geometry.crs, area.area_ha),
+    documents: async () => ({ documents: await n2000Client.getAreaDocuments(kod) }),
+    related_areas: () => fetchRelatedAreas('n2000', kod),
+  });
 }
 
-async function fetchRamsarDetail(id: string, include: IncludeType, geometryDetail: GeometryDetail) {
+async function fetchRamsarDetail(id: string, sections: Section[], geometry: GeometryOptions) {
   const area = await ramsarClient.getArea(id);
   const result: Record<string, unknown> = {
     id: area.id,
@@ -228,46 +561,72 @@ async function fetchRamsarDetail(id: string, include: IncludeType, geometryDetai
     county: area.county,
     municipalities: area.municipalities,
     total_area_ha: area.total_area_ha,
-    coordinate_system: 'EPSG:4326 (WGS84)',
+    coordinate_system: crsLabel(geometry.crs),
   };
 
-  if (include === 'all') {
-    // Batch: geometry (if not skipped) + land_cover (Ramsar has no documents endpoint)
-    const [geometry, land_cover] = await Promise.all([
-      geometryDetail !== 'none' ? ramsarClient.getAreaWkt(id) : Promise.resolve(null),
-      ramsarClient.getAreaLandCover(id),
-    ]);
-    if (geometry) result.geometry = applyGeometryDetail(geometry, geometryDetail);
-    result.land_cover = land_cover;
-    return result;
+  // Ramsar has no documents endpoint
+  const getWkt = sharedFetch(() => ramsarClient.getAreaWktSweref99(id));
+  return fetchSections(result, sections, {
+    ...geometrySection(getWkt, geometry, result),
+    metrics: metricsSection(getWkt, geometry.crs, area.total_area_ha),
+    land_cover: async () => ({ land_cover: await ramsarClient.getAreaLandCover(id) }),
+    related_areas: () => fetchRelatedAreas('ramsar', id),
+  });
+}
+
+/**
+ * Validate and resolve the options that don't depend on the area
+ *
+ * Separate from fetchAreaDetail so nvv_detail_batch can reject bad options once for the
+ * whole batch.
+ */
+export function resolveDetailOptions(args: Omit<DetailInput, 'id' | 'source'>): {
+  geometry: GeometryOptions;
+  include: IncludeType[];
+} {
+  const geometry: GeometryOptions = {
+    detail: args.geometryDetail ?? 'simplified',
+    maxPoints: args.maxPoints,
+    maxTokens: args.maxTokens,
+    clip: args.clip === undefined ? undefined : parseClipInput(args.clip, 'clip'),
+    format: args.outputFormat ?? 'wkt',
+    crs: args.outputCrs ?? CRS_WGS84,
+  };
+  const include = Array.isArray(args.include) ? args.include : [args.include ?? 'all'];
+  if (include.length === 0) {
+    throw new ValidationError("include must list at least one section, or be 'all'", 'include');
   }
 
-  switch (include) {
-    case 'geometry': {
-      if (geometryDetail !== 'none') {
-        const wkt = await ramsarClient.getAreaWkt(id);
-        result.geometry = applyGeometryDetail(wkt, geometryDetail);
-      }
-      break;
-    }
-    case 'land_cover':
-      result.land_cover = await ramsarClient.getAreaLandCover(id);
-      break;
+  validateGeometryBudget(args, geometry.detail);
+  validateOutputCrs(args.outputFormat, args.outputCrs);
+  // Every source has a geometry section, and 'all' includes it
+  const wantsGeometry = include.includes('all') || include.includes('geometry');
+  if (geometry.clip && (geometry.detail === 'none' || !wantsGeometry)) {
+    throw new ValidationError(
+      "clip applies to the geometry section — include geometry and don't set geometryDetail='none'",
+      'clip',
+    );
   }
-  return result;
+  return { geometry, include };
 }
 
-export const detailHandler = withErrorHandling(async (args: DetailInput) => {
-  const { id, source, include = 'all', geometryDetail = 'simplified' } = args;
-
+/**
+ * Fetch one area's detail. Throws on invalid input or when the area itself cannot be fetched.
+ */
+export async function fetchAreaDetail(args: DetailInput): Promise<Record<string, unknown>> {
+  const { id, source } = args;
+  const { geometry, include } = resolveDetailOptions(args);
   validateIncludeForSource(include, source);
+  const sections = resolveSections(include, source);
 
   switch (source) {
     case 'national':
-      return fetchNationalDetail(id, include, geometryDetail);
+      return fetchNationalDetail(id, sections, geometry);
     case 'n2000':
-      return fetchN2000Detail(id, include, geometryDetail);
+      return fetchN2000Detail(id, sections, geometry);
     case 'ramsar':
-      return fetchRamsarDetail(id, include, geometryDetail);
+      return fetchRamsarDetail(id, sections, geometry);
   }
-});
+}
+
+export const detailHandler = withErrorHandling(fetchAreaDetail);
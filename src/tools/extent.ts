@@ -4,12 +4,32 @@ import { n2000Client } from '@/clients/n2000-client';
 import { ramsarClient } from '@/clients/ramsar-client';
 import { withErrorHandling } from '@/lib/response';
 import { ValidationError } from '@/lib/errors';
-import { extractBoundingBoxFromWkt, combineBoundingBoxes, boundingBoxToWkt } from '@/lib/wkt-utils';
+import {
+  extractBoundingBoxFromWkt,
+  combineBoundingBoxes,
+  boundingBoxToWkt,
+  convertBoundingBoxFromSweref99,
+} from '@/lib/wkt-utils';
+import { OUTPUT_CRS, CRS_WGS84, crsLabel, type OutputCrs } from '@/lib/coordinates';
+import { wktToFeature, validateOutputCrs, OUTPUT_FORMATS, type OutputFormat } from '@/lib/geojson';
+import { detailInputSchema } from './detail';
 
 export const extentInputSchema = {
   nationalIds: z.array(z.string()).optional().describe('National area IDs, e.g. ["2000019", "2000140"]'),
   n2000Ids: z.array(z.string()).optional().describe('Natura 2000 area codes, e.g. ["SE0110001"]'),
   ramsarIds: z.array(z.string()).optional().describe('Ramsar area IDs, e.g. ["15"]'),
+  outputFormat: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe("Extent format. 'wkt' (default): WKT POLYGON. 'geojson': RFC 7946 Feature with the area IDs as properties."),
+  outputCrs: z
+    .enum(OUTPUT_CRS)
+    .optional()
+    .describe(
+      "Coordinate system of the extent: 'EPSG:4326' (WGS84, default), 'EPSG:3006' (SWEREF99 TM, native) " +
+        "or a SWEREF99 local zone EPSG:3007-3018. Only with outputFormat='wkt': GeoJSON (RFC 7946) is always WGS84.",
+    ),
+  fresh: detailInputSchema.fresh,
 };
 
 export const extentTool = {
@@ -18,7 +38,7 @@ export const extentTool = {
     'Calculate the combined bounding box for multiple protected areas across all sources. ' +
     'Pass IDs from nvv_search results grouped by source. ' +
     'At least one ID array must be non-empty. Max 100 total IDs. ' +
-    'Returns a WKT POLYGON bounding box in WGS84.',
+    'Returns a WKT POLYGON bounding box in WGS84 (or outputCrs), or a GeoJSON Feature with outputFormat=geojson.',
   inputSchema: extentInputSchema,
 };
 
@@ -26,6 +46,9 @@ type ExtentInput = {
   nationalIds?: string[];
   n2000Ids?: string[];
   ramsarIds?: string[];
+  outputFormat?: OutputFormat;
+  outputCrs?: OutputCrs;
+  fresh?: boolean;
 };
 
 export const extentHandler = withErrorHandling(async (args: ExtentInput) => {
@@ -43,6 +66,28 @@ export const extentHandler = withErrorHandling(async (args: ExtentInput) => {
     throw new ValidationError(`Too many IDs (${totalCount}). Maximum 100 total IDs across all sources.`);
   }
 
+  validateOutputCrs(args.outputFormat, args.outputCrs);
+  const crs = args.outputCrs ?? CRS_WGS84;
+  const extentWkt =
+    crs === CRS_WGS84
+      ? await fetchWgs84Extent(nationalIds, n2000Ids, ramsarIds)
+      : await fetchExtentInCrs(nationalIds, n2000Ids, ramsarIds, crs);
+
+  const ids = {
+    national_ids: nationalIds,
+    n2000_ids: n2000Ids,
+    ramsar_ids: ramsarIds,
+    total_areas: totalCount,
+  };
+
+  return {
+    ...ids,
+    extent: args.outputFormat === 'geojson' ? wktToFeature(extentWkt, ids) : extentWkt,
+    coordinate_system: crsLabel(crs),
+  };
+});
+
+async function fetchWgs84Extent(nationalIds: string[], n2000Ids: string[], ramsarIds: string[]): Promise<string> {
   // Fetch extents in parallel per source
   const extentPromises: Promise<string>[] = [];
   if (nationalIds.length > 0) extentPromises.push(nvvClient.getAreasExtent(nationalIds));
@@ -51,29 +96,27 @@ export const extentHandler = withErrorHandling(async (args: ExtentInput) => {
 
   const extentWkts = await Promise.all(extentPromises);
 
-  // If only one source, return its extent directly
-  if (extentWkts.length === 1) {
-    return {
-      national_ids: nationalIds,
-      n2000_ids: n2000Ids,
-      ramsar_ids: ramsarIds,
-      total_areas: totalCount,
-      extent: extentWkts[0],
-      coordinate_system: 'EPSG:4326 (WGS84)',
-    };
-  }
+  // If only one source, use its extent directly; otherwise combine bounding boxes from multiple sources
+  if (extentWkts.length === 1) return extentWkts[0];
+  return boundingBoxToWkt(combineBoundingBoxes(extentWkts.map(extractBoundingBoxFromWkt)));
+}
 
-  // Combine bounding boxes from multiple sources
-  const boundingBoxes = extentWkts.map(extractBoundingBoxFromWkt);
-  const combined = combineBoundingBoxes(boundingBoxes);
-  const combinedWkt = boundingBoxToWkt(combined);
+/**
+ * Extent in a projected CRS: combined in native SWEREF99TM, then reprojected once
+ * (EPSG:3006 is returned without reprojection)
+ */
+async function fetchExtentInCrs(
+  nationalIds: string[],
+  n2000Ids: string[],
+  ramsarIds: string[],
+  crs: OutputCrs,
+): Promise<string> {
+  const extentPromises: Promise<string>[] = [];
+  if (nationalIds.length > 0) extentPromises.push(nvvClient.getAreasExtentSweref99(nationalIds));
+  if (n2000Ids.length > 0) extentPromises.push(n2000Client.getAreasExtentSweref99(n2000Ids));
+  if (ramsarIds.length > 0) extentPromises.push(ramsarClient.getAreasExtentSweref99(ramsarIds));
 
-  return {
-    national_ids: nationalIds,
-    n2000_ids: n2000Ids,
-    ramsar_ids: ramsarIds,
-    total_areas: totalCount,
-    extent: combinedWkt,
-    coordinate_system: 'EPSG:4326 (WGS84)',
-  };
-});
+  const extentWkts = await Promise.all(extentPromises);
+  const combined = combineBoundingBoxes(extentWkts.map(extractBoundingBoxFromWkt));
+  return boundingBoxToWkt(convertBoundingBoxFromSweref99(combined, crs));
+}
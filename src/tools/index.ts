@@ -3,13 +3,21 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { lookupTool, lookupHandler } from './lookup';
 import { searchTool, searchHandler } from './search';
 import { detailTool, detailHandler } from './detail';
+import { detailBatchTool, detailBatchHandler } from './detail-batch';
 import { extentTool, extentHandler } from './extent';
+import { pointTool, pointHandler } from './point';
+import { screenTool, screenHandler } from './screen';
+import { routeTool, routeHandler } from './route';
 
 const tools = [
   { definition: lookupTool, handler: lookupHandler },
   { definition: searchTool, handler: searchHandler },
   { definition: detailTool, handler: detailHandler },
+  { definition: detailBatchTool, handler: detailBatchHandler },
   { definition: extentTool, handler: extentHandler },
+  { definition: pointTool, handler: pointHandler },
+  { definition: screenTool, handler: screenHandler },
+  { definition: routeTool, handler: routeHandler },
 ];
 
 export function registerAllTools(server: McpServer): void {
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { searchAllSourcesWithGeometry, throwIfAllSourcesFailed, failedSourcesNote } from '@/clients/geometry-search';
+import type { WfsBboxArea } from '@/clients/wfs-client';
+import { wgs84ToSweref99, sweref99ToWgs84, trueBearing, compassDirection } from '@/lib/coordinates';
+import { withErrorHandling } from '@/lib/response';
+import { ValidationError } from '@/lib/errors';
+import { distanceToMultiPolygon, type Position } from '@/lib/geometry';
+import { detailInputSchema } from './detail';
+
+/** Half-width of the WFS candidate bbox around the point when no radius is given, in metres */
+const POINT_BBOX_MARGIN_M = 1;
+
+/** Max proximity search radius, keeps the WFS candidate set bounded */
+const MAX_RADIUS_M = 50_000;
+
+/** Max WFS candidates per source */
+const MAX_CANDIDATES = 500;
+
+const DEFAULT_NEAREST_LIMIT = 10;
+const MAX_NEAREST_LIMIT = 100;
+
+export const pointInputSchema = {
+  latitude: z.number().describe('WGS84 latitude (e.g., 59.18 for Tyresta)'),
+  longitude: z.number().describe('WGS84 longitude (e.g., 18.28)'),
+  radius: z
+    .number()
+    .optional()
+    .describe(
+      'Search radius in metres (1-50000). When set, returns the nearest areas within the radius sorted by distance ' +
+        'to their boundary, including areas that contain the point (distance 0). Omit to only get containing areas.',
+    ),
+  limit: z
+    .number()
+    .optional()
+    .describe(
+      `Max areas returned in radius mode, across all sources (1-${MAX_NEAREST_LIMIT}, default: ${DEFAULT_NEAREST_LIMIT})`,
+    ),
+  fresh: detailInputSchema.fresh,
+};
+
+export const pointTool = {
+  name: 'nvv_point',
+  description:
+    'Find protected areas at or near a location (e.g., a GPS position). ' +
+    'Takes WGS84 latitude/longitude and returns every national, Natura 2000 and Ramsar area ' +
+    'whose boundary actually contains the point (exact polygon test, not bounding box). ' +
+    'With radius (metres), returns the N nearest areas instead, with distance to the area boundary and the bearing to it. ' +
+    'Each hit has id + source for use with nvv_detail. ' +
+    'If a source cannot be searched, inside_protected_area is null (unless another source contains the point) ' +
+    'and incomplete_note names the missing sources; the call fails when no source can be searched.',
+  inputSchema: pointInputSchema,
+};
+
+type PointInput = {
+  latitude: number;
+  longitude: number;
+  radius?: number;
+  limit?: number;
+  fresh?: boolean;
+};
+
+type NearbyArea = WfsBboxArea & {
+  source: string;
+  distance_m: number;
+  bearing_deg?: number;
+  direction?: string;
+};
+
+export const pointHandler = withErrorHandling(async (args: PointInput) => {
+  if (args.radius !== undefined && (args.radius < 1 || args.radius > MAX_RADIUS_M)) {
+    throw new ValidationError(`radius must be between 1 and ${MAX_RADIUS_M} metres`, 'radius');
+  }
+  const limit = args.limit ?? DEFAULT_NEAREST_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_NEAREST_LIMIT) {
+    throw new ValidationError(`limit must be a whole number between 1 and ${MAX_NEAREST_LIMIT}`, 'limit');
+  }
+
+  // Validates that the point is within Sweden
+  const sweref = wgs84ToSweref99({ latitude: args.latitude, longitude: args.longitude });
+  const position: Position = [sweref.x, sweref.y];
+  const nearestMode = args.radius !== undefined;
+  const radius = args.radius ?? 0;
+
+  const margin = Math.max(radius, POINT_BBOX_MARGIN_M);
+  const bbox = {
+    minX: sweref.x - margin,
+    minY: sweref.y - margin,
+    maxX: sweref.x + margin,
+    maxY: sweref.y + margin,
+  };
+
+  const { features, errors, truncated } = await searchAllSourcesWithGeometry(bbox, MAX_CANDIDATES);
+  throwIfAllSourcesFailed(errors);
+
+  // Distance is to the area boundary (0 inside), measured in SWEREF99TM metres
+  const areas: NearbyArea[] = [];
+  for (const { geometry, ...area } of features) {
+    const { distance, nearest } = distanceToMultiPolygon(position, geometry);
+    if (distance > radius) continue;
+
+    const entry: NearbyArea = { ...area, distance_m: Math.round(distance) };
+    if (distance > 0) {
+      const bearing = trueBearing(
+        { latitude: args.latitude, longitude: args.longitude },
+        sweref99ToWgs84({ x: nearest[0], y: nearest[1] }),
+      );
+      entry.bearing_deg = Math.round(bearing);
+      entry.direction = compassDirection(bearing);
+    }
+    areas.push(entry);
+  }
+
+  const countBySource = (source: string) => areas.filter((a) => a.source === source).length;
+
+  // A hit is certain; "not inside" is only known when every source was searched
+  const inside = (found: boolean) => (found ? true : errors.length > 0 ? null : false);
+  const notes = {
+    ...(truncated && {
+      note: `More than ${MAX_CANDIDATES} areas lie near this point — some may be missing.${nearestMode ? ' Use a smaller radius.' : ''}`,
+    }),
+    ...(errors.length > 0 && { incomplete_note: failedSourcesNote(errors) }),
+  };
+
+  if (!nearestMode) {
+    // Containment mode: the radius is 0, so every hit contains the point — distance adds nothing
+    const containing = areas.map(({ distance_m: _distance, ...area }) => area);
+    return {
+      latitude: args.latitude,
+      longitude: args.longitude,
+      inside_protected_area: inside(containing.length > 0),
+      total_count: containing.length,
+      national_count: countBySource('national'),
+      n2000_count: countBySource('n2000'),
+      ramsar_count: countBySource('ramsar'),
+      ...notes,
+      errors,
+      areas: containing,
+    };
+  }
+
+  areas.sort((a, b) => a.distance_m - b.distance_m);
+
+  return {
+    latitude: args.latitude,
+    longitude: args.longitude,
+    radius_m: radius,
+    inside_protected_area: inside(areas.some((a) => a.distance_m === 0)),
+    total_within_radius: areas.length,
+    national_count: countBySource('national'),
+    n2000_count: countBySource('n2000'),
+    ramsar_count: countBySource('ramsar'),
+    ...notes,
+    errors,
+    areas: areas.slice(0, limit),
+  };
+});
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { searchAllSourcesWithGeometry, type SourcedFeature, type SourceError } from '@/clients/geometry-search';
+import { sweref99ToWgs84 } from '@/lib/coordinates';
+import { withErrorHandling } from '@/lib/response';
+import { ValidationError } from '@/lib/errors';
+import { parseShapeInput, INPUT_CRS, type InputCrs } from '@/lib/shape-input';
+import { lineInsideIntervals, lineLength, pathsBoundingBox, type LineCoords, type Position } from '@/lib/geometry';
+import { detailInputSchema } from './detail';
+
+/** Max total route length, in metres */
+const MAX_ROUTE_LENGTH_M = 500_000;
+
+/** Routes are searched in sections whose bbox spans at most this many metres, to keep WFS results bounded */
+const SECTION_SIZE_M = 25_000;
+
+/** Max WFS candidates per source and section */
+const MAX_CANDIDATES = 500;
+
+export const routeInputSchema = {
+  route: z
+    .string()
+    .describe(
+      'Route as WKT (LINESTRING, MULTILINESTRING), GeoJSON (LineString/MultiLineString geometry, Feature or ' +
+        'FeatureCollection) or GPX (track segments and routes). WGS84 lon/lat unless routeCrs is EPSG:3006; GPX is always WGS84.',
+    ),
+  routeCrs: z
+    .enum(INPUT_CRS)
+    .optional()
+    .describe("Coordinate system of WKT/GeoJSON input: 'EPSG:4326' (WGS84, default) or 'EPSG:3006' (SWEREF99 TM)"),
+  fresh: detailInputSchema.fresh,
+};
+
+export const routeTool = {
+  name: 'nvv_route',
+  description:
+    'Analyse which protected areas a line crosses — power lines, roads, pipelines, hiking trails. ' +
+    'Pass the route as WKT, GeoJSON or GPX. Returns every crossing of a national, Natura 2000 or Ramsar area ' +
+    'in order along the route, with entry/exit points (WGS84), distance along the route and length inside in metres, ' +
+    'plus a per-area summary with id + source for use with nvv_detail (e.g., to list permits needed along a corridor). ' +
+    'If the call runs out of time, the crossings found so far are returned with cancelled=true.',
+  inputSchema: routeInputSchema,
+};
+
+type RouteInput = {
+  route: string;
+  routeCrs?: InputCrs;
+  fresh?: boolean;
+};
+
+type AreaSummary = {
+  source: string;
+  id: string;
+  name: string;
+  type: string;
+  crossing_count: number;
+  length_inside_m: number;
+};
+
+type RoutePoint = {
+  latitude: number;
+  longitude: number;
+  distance_along_m: number;
+};
+
+function toRoutePoint([x, y]: Position, distanceAlong: number): RoutePoint {
+  const wgs84 = sweref99ToWgs84({ x, y });
+  return {
+    latitude: Number(wgs84.latitude.toFixed(6)),
+    longitude: Number(wgs84.longitude.toFixed(6)),
+    distance_along_m: Math.round(distanceAlong),
+  };
+}
+
+/**
+ * Split route lines into consecutive sections whose bbox stays within SECTION_SIZE_M
+ */
+function splitIntoSections(lines: LineCoords[]): LineCoords[] {
+  const sections: LineCoords[] = [];
+  for (const line of lines) {
+    let section: LineCoords = [line[0]];
+    for (const position of line.slice(1)) {
+      const box = pathsBoundingBox([[...section, position]]);
+      if (section.length > 1 && (box.maxX - box.minX > SECTION_SIZE_M || box.maxY - box.minY > SECTION_SIZE_M)) {
+        sections.push(section);
+        section = [section[section.length - 1]];
+      }
+      section.push(position);
+    }
+    sections.push(section);
+  }
+  return sections;
+}
+
+export const routeHandler = withErrorHandling(async (args: RouteInput, signal: AbortSignal) => {
+  const shape = parseShapeInput(args.route, args.routeCrs ?? 'EPSG:4326', 'route');
+  if (shape.type !== 'line') {
+    throw new ValidationError(
+      'route must be a line (LINESTRING, MultiLineString or GPX). Use nvv_screen for polygons.',
+      'route',
+    );
+  }
+
+  const lines = shape.coordinates.filter((line) => line.length >= 2);
+  const lengths = lines.map(lineLength);
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  if (totalLength > MAX_ROUTE_LENGTH_M) {
+    throw new ValidationError(
+      `Route is ${Math.round(totalLength / 1000)} km long. Maximum is ${MAX_ROUTE_LENGTH_M / 1000} km — split it into sections.`,
+      'route',
+    );
+  }
+
+  // Search section by section (sequentially, to stay within upstream rate limits) and dedupe by source + id.
+  // When the call is cancelled, the crossings in the sections searched so far are returned.
+  const candidates = new Map<string, SourcedFeature>();
+  const errors: SourceError[] = [];
+  let truncated = false;
+  let searchedLength = 0;
+  for (const section of splitIntoSections(lines)) {
+    if (signal.aborted) break;
+    const box = pathsBoundingBox([section]);
+    const result = await searchAllSourcesWithGeometry(
+      { minX: box.minX - 1, minY: box.minY - 1, maxX: box.maxX + 1, maxY: box.maxY + 1 },
+      MAX_CANDIDATES,
+    );
+    for (const feature of result.features) candidates.set(`${feature.source}:${feature.id}`, feature);
+    // A section cut short by cancellation only reports cancelled sources, so its errors are left out
+    if (signal.aborted) break;
+    for (const error of result.errors) {
+      if (!errors.some((e) => e.source === error.source)) errors.push(error);
+    }
+    truncated ||= result.truncated;
+    searchedLength += lineLength(section);
+  }
+  const cancelled = signal.aborted;
+
+  const crossings = [];
+  for (const { geometry, ...area } of Array.from(candidates.values())) {
+    let offset = 0;
+    for (let i = 0; i < lines.length; i++) {
+      for (const interval of lineInsideIntervals(lines[i], geometry)) {
+        crossings.push({
+          ...area,
+          entry: toRoutePoint(interval.entry, offset + interval.start),
+          exit: toRoutePoint(interval.exit, offset + interval.end),
+          length_inside_m: Math.round(interval.end - interval.start),
+        });
+      }
+      offset += lengths[i];
+    }
+  }
+
+  crossings.sort((a, b) => a.entry.distance_along_m - b.entry.distance_along_m);
+
+  // Per-area summary: one entry per id + source, in order of first crossing
+  const summary = new Map<string, AreaSummary>();
+  for (const crossing of crossings) {
+    const key = `${crossing.source}:${crossing.id}`;
+    const entry = summary.get(key) ?? {
+      source: crossing.source,
+      id: crossing.id,
+      name: crossing.name,
+      type: crossing.type,
+      crossing_count: 0,
+      length_inside_m: 0,
+    };
+    entry.crossing_count++;
+    entry.length_inside_m += crossing.length_inside_m;
+    summary.set(key, entry);
+  }
+
+  return {
+    route: {
+      length_m: Math.round(totalLength),
+      parts: lines.length,
+    },
+    crossing_count: crossings.length,
+    area_count: summary.size,
+    ...(truncated && {
+      note: `More than ${MAX_CANDIDATES} areas lie along part of the route — some crossings may be missing.`,
+    }),
+    // Stopped early: only the first searched_length_m of the route were searched
+    ...(cancelled && {
+      cancelled: true,
+      searched_length_m: Math.round(searchedLength),
+      cancelled_note: `Stopped after searching ${Math.round(searchedLength / 1000)} km of the route — crossings beyond it may be missing.`,
+    }),
+    errors,
+    crossings: crossings.map((crossing, i) => ({ order: i + 1, ...crossing })),
+    areas: Array.from(summary.values()),
+  };
+});
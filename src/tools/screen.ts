@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { searchAllSourcesWithGeometry, throwIfAllSourcesFailed, failedSourcesNote } from '@/clients/geometry-search';
+import type { WfsBboxArea } from '@/clients/wfs-client';
+import { withErrorHandling } from '@/lib/response';
+import { ValidationError } from '@/lib/errors';
+import { parseShapeInput, INPUT_CRS, type InputCrs } from '@/lib/shape-input';
+import {
+  shapePaths,
+  pathsBoundingBox,
+  multiPolygonArea,
+  lineLength,
+  intersectMultiPolygons,
+  distanceShapeToMultiPolygon,
+  round,
+} from '@/lib/geometry';
+import { detailInputSchema } from './detail';
+
+/** Max buffer distance, in metres */
+const MAX_BUFFER_M = 10_000;
+
+/** Max footprint extent (width or height incl. buffer), keeps the WFS candidate set bounded */
+const MAX_EXTENT_M = 100_000;
+
+/** Max WFS candidates per source */
+const MAX_CANDIDATES = 500;
+
+const SQ_M_PER_HA = 10_000;
+
+export const screenInputSchema = {
+  footprint: z
+    .string()
+    .describe(
+      'Project footprint as WKT (POLYGON, MULTIPOLYGON, LINESTRING, MULTILINESTRING) or GeoJSON ' +
+        '(geometry, Feature or FeatureCollection). Coordinates in WGS84 lon/lat unless footprintCrs is EPSG:3006.',
+    ),
+  footprintCrs: z
+    .enum(INPUT_CRS)
+    .optional()
+    .describe("Coordinate system of the footprint: 'EPSG:4326' (WGS84, default) or 'EPSG:3006' (SWEREF99 TM)"),
+  buffer: z
+    .number()
+    .optional()
+    .describe('Also report areas within this distance of the footprint, in metres (0-10000, default: 0)'),
+  fresh: detailInputSchema.fresh,
+};
+
+export const screenTool = {
+  name: 'nvv_screen',
+  description:
+    'Environmental screening: find every protected area that a project footprint intersects or comes near. ' +
+    'Pass a polygon or line as WKT or GeoJSON, plus an optional buffer in metres. ' +
+    'Searches national, Natura 2000 and Ramsar areas and returns, per area: overlap in hectares, overlap as % of the ' +
+    'footprint and of the area, and minimum distance (0 when intersecting). ' +
+    'Each hit has id + source for use with nvv_detail. ' +
+    'complete=false means a source could not be screened or candidates were cut off — see incomplete_note and note; ' +
+    'the call fails when no source can be screened.',
+  inputSchema: screenInputSchema,
+};
+
+type ScreenInput = {
+  footprint: string;
+  footprintCrs?: InputCrs;
+  buffer?: number;
+  fresh?: boolean;
+};
+
+type ScreenedArea = WfsBboxArea & {
+  source: string;
+  relation: 'intersects' | 'nearby';
+  distance_m: number;
+  overlap_ha?: number;
+  overlap_pct_of_footprint?: number;
+  overlap_pct_of_area?: number;
+};
+
+export const screenHandler = withErrorHandling(async (args: ScreenInput) => {
+  const buffer = args.buffer ?? 0;
+  if (buffer < 0 || buffer > MAX_BUFFER_M) {
+    throw new ValidationError(`buffer must be between 0 and ${MAX_BUFFER_M} metres`, 'buffer');
+  }
+
+  const shape = parseShapeInput(args.footprint, args.footprintCrs ?? 'EPSG:4326', 'footprint');
+  const extent = pathsBoundingBox(shapePaths(shape));
+  const bbox = {
+    minX: extent.minX - buffer,
+    minY: extent.minY - buffer,
+    maxX: extent.maxX + buffer,
+    maxY: extent.maxY + buffer,
+  };
+
+  if (bbox.maxX - bbox.minX > MAX_EXTENT_M || bbox.maxY - bbox.minY > MAX_EXTENT_M) {
+    throw new ValidationError(
+      `Footprint extent including buffer exceeds ${MAX_EXTENT_M / 1000} km. Split the project into smaller sections.`,
+      'footprint',
+    );
+  }
+
+  const footprintAreaM2 = shape.type === 'polygon' ? multiPolygonArea(shape.coordinates) : 0;
+  const { features, errors, truncated } = await searchAllSourcesWithGeometry(bbox, MAX_CANDIDATES);
+  throwIfAllSourcesFailed(errors);
+
+  const areas: ScreenedArea[] = [];
+  for (const { geometry, ...area } of features) {
+    const distance = distanceShapeToMultiPolygon(shape, geometry);
+    if (distance > buffer) continue;
+
+    const entry: ScreenedArea = {
+      ...area,
+      relation: distance === 0 ? 'intersects' : 'nearby',
+      distance_m: Math.round(distance),
+    };
+
+    // Overlap only applies to polygon footprints — a line has no area
+    if (shape.type === 'polygon' && distance === 0) {
+      const overlapM2 = multiPolygonArea(intersectMultiPolygons(shape.coordinates, geometry));
+      const areaM2 = multiPolygonArea(geometry);
+      entry.overlap_ha = round(overlapM2 / SQ_M_PER_HA, 2);
+      entry.overlap_pct_of_footprint = footprintAreaM2 > 0 ? round((overlapM2 / footprintAreaM2) * 100, 1) : 0;
+      entry.overlap_pct_of_area = areaM2 > 0 ? round((overlapM2 / areaM2) * 100, 1) : 0;
+    }
+
+    areas.push(entry);
+  }
+
+  // Intersecting areas first (largest overlap first), then nearby areas by distance
+  areas.sort((a, b) => a.distance_m - b.distance_m || (b.overlap_ha ?? 0) - (a.overlap_ha ?? 0));
+
+  const countBy = (key: 'relation' | 'source', value: string) => areas.filter((a) => a[key] === value).length;
+
+  return {
+    footprint: {
+      type: shape.type,
+      ...(shape.type === 'polygon'
+        ? { area_ha: round(footprintAreaM2 / SQ_M_PER_HA, 2) }
+        : { length_m: Math.round(shape.coordinates.reduce((sum, line) => sum + lineLength(line), 0)) }),
+      buffer_m: buffer,
+    },
+    // A screening that missed a source or candidates must not read as "nothing found"
+    complete: errors.length === 0 && !truncated,
+    total_count: areas.length,
+    intersecting_count: countBy('relation', 'intersects'),
+    nearby_count: countBy('relation', 'nearby'),
+    national_count: countBy('source', 'national'),
+    n2000_count: countBy('source', 'n2000'),
+    ramsar_count: countBy('source', 'ramsar'),
+    ...(truncated && {
+      note: `More than ${MAX_CANDIDATES} areas lie near the footprint — some may be missing. Screen smaller sections.`,
+    }),
+    ...(errors.length > 0 && { incomplete_note: failedSourcesNote(errors) }),
+    errors,
+    areas,
+  };
+});
@@ -2,10 +2,42 @@ import { z } from 'zod';
 import { nvvClient } from '@/clients/nvv-client';
 import { n2000Client } from '@/clients/n2000-client';
 import { ramsarClient } from '@/clients/ramsar-client';
-import { wfsClient, type WfsBboxArea } from '@/clients/wfs-client';
+import { wfsClient, type WfsBboxArea, type WfsBboxPage } from '@/clients/wfs-client';
 import { wgs84BboxToSweref99 } from '@/lib/coordinates';
 import { withErrorHandling } from '@/lib/response';
 import { ValidationError } from '@/lib/errors';
+import { filterAndRankByName, nameMatchRank } from '@/lib/search-helpers';
+import {
+  hasAreaFilters,
+  validateAreaFilters,
+  matchesAreaFilters,
+  type AreaFilters,
+  type FilterableFields,
+} from '@/lib/area-filters';
+import { getAreaGeometry, type SourceError } from '@/clients/geometry-search';
+import { runWithConcurrency, NVV_API_CONCURRENCY } from '@/lib/concurrency';
+import { multiPolygonArea, type MultiPolygonCoords } from '@/lib/geometry';
+import { compareAreas, isSameSiteLink, clusterLinked, type SiteRelation } from '@/lib/site-links';
+import type { N2000Species, N2000Habitat } from '@/types/n2000-api';
+import { detailInputSchema } from './detail';
+
+/** Max page size per source */
+const MAX_LIMIT = 500;
+
+/** Max offset — paging deeper than this should narrow the search instead */
+const MAX_OFFSET = 10_000;
+
+/** Rows fetched per REST source when name matching or filtering is done client-side */
+const REFINE_WINDOW = 2000;
+
+/** Rows fetched for the nationwide name fallback — above every source's full list, so nothing is cut off */
+const FULL_LIST_LIMIT = 50_000;
+
+/** Max areas per response in groupBySite mode — each needs its polygon fetched */
+const MAX_GROUPED_AREAS = 100;
+
+/** Max catalogue suggestions returned for an unknown species/habitat */
+const MAX_SUGGESTIONS = 5;
 
 export const searchInputSchema = {
   kommun: z
@@ -18,6 +50,45 @@ export const searchInputSchema = {
     .describe(
       "Swedish county code (1-2 letters, e.g., 'AB' for Stockholms lan, 'M' for Skane). " + 'Use nvv_lookup to find codes.',
     ),
+  name: z
+    .string()
+    .optional()
+    .describe(
+      "Area name or part of it (e.g., 'Tyresta', 'store mosse'). Case- and diacritic-insensitive, exact matches ranked first. " +
+        'Can be combined with kommun/lan.',
+    ),
+  species: z
+    .string()
+    .optional()
+    .describe(
+      "Natura 2000 species name (e.g., 'Lutra lutra'). Only Natura 2000 areas are searched. " +
+        'Can be combined with kommun/lan. Unknown names return suggestions.',
+    ),
+  habitat: z
+    .string()
+    .optional()
+    .describe(
+      "Natura 2000 habitat type code (e.g., '9010' for Western taiga). Only Natura 2000 areas are searched. " +
+        'Can be combined with kommun/lan. Unknown codes return suggestions.',
+    ),
+  type: z
+    .string()
+    .optional()
+    .describe(
+      "Protection type filter: national type (e.g., 'Nationalpark', 'Naturreservat'), " +
+        "Natura 2000 area type ('SPA', 'SCI', 'SPA/SCI') or Ramsar protection type. Case-insensitive exact match.",
+    ),
+  iucnCategory: z
+    .string()
+    .optional()
+    .describe("IUCN category filter (e.g., 'II', 'IV'). National areas only — N2000 and Ramsar are skipped when set."),
+  minAreaHa: z.number().optional().describe('Minimum area in hectares'),
+  maxAreaHa: z.number().optional().describe('Maximum area in hectares'),
+  decidedAfter: z
+    .string()
+    .optional()
+    .describe("Only areas whose current decision is on or after this date (YYYY-MM-DD, e.g., '2015-01-01')"),
+  decidedBefore: z.string().optional().describe('Only areas whose current decision is on or before this date (YYYY-MM-DD)'),
   minLat: z
     .number()
     .optional()
@@ -26,34 +97,77 @@ export const searchInputSchema = {
   maxLat: z.number().optional().describe('Bounding box north edge, WGS84 latitude (e.g., 59.40)'),
   maxLon: z.number().optional().describe('Bounding box east edge, WGS84 longitude (e.g., 18.10)'),
   limit: z.number().optional().describe('Max areas per source (1-500, default: 100)'),
+  offset: z
+    .number()
+    .optional()
+    .describe('Areas to skip per source, for paging (default: 0). Pass paging.next_offset from the previous response.'),
+  groupBySite: z
+    .boolean()
+    .optional()
+    .describe(
+      'Group results into physical sites: designations from different sources covering the same place ' +
+        '(e.g., a national park that is also a Natura 2000 area) are clustered by polygon overlap. ' +
+        `Slower — fetches each area's boundary. Max ${MAX_GROUPED_AREAS} areas per page.`,
+    ),
+  fresh: detailInputSchema.fresh,
 };
 
 export const searchTool = {
   name: 'nvv_search',
   description:
     'Search protected nature areas in Sweden. Two search modes: ' +
-    '(1) By municipality/county code (kommun/lan) — searches national, Natura 2000, AND Ramsar areas. ' +
-    '(2) By bounding box (minLat/minLon/maxLat/maxLon in WGS84) — searches national and Natura 2000 areas ' +
-    '(Ramsar not available for bbox). Use nvv_lookup to convert place names to codes. ' +
+    '(1) By municipality/county code (kommun/lan) and/or area name — searches national, Natura 2000, AND Ramsar areas. ' +
+    'Species/habitat filters narrow mode (1) to Natura 2000 areas holding that species or habitat type. ' +
+    '(2) By bounding box (minLat/minLon/maxLat/maxLon in WGS84) — also searches all three sources. ' +
+    'Use nvv_lookup to convert place names to codes. ' +
+    'Filters (type, iucnCategory, minAreaHa/maxAreaHa, decidedAfter/decidedBefore) apply in both modes. ' +
     'Returns results tagged by source with an id field for use with nvv_detail. ' +
+    'Results are paged: paging.has_more tells whether any source has more, with per-source totals where known. ' +
     'The same physical area may appear under multiple sources (e.g., both national and N2000) — ' +
-    'these represent different legal protection schemes and are not duplicates.',
+    'these represent different legal protection schemes and are not duplicates. ' +
+    'Set groupBySite to cluster them into sites with their overlapping designations.',
   inputSchema: searchInputSchema,
 };
 
 type SearchInput = {
   kommun?: string;
   lan?: string;
+  name?: string;
+  species?: string;
+  habitat?: string;
+  type?: string;
+  iucnCategory?: string;
+  minAreaHa?: number;
+  maxAreaHa?: number;
+  decidedAfter?: string;
+  decidedBefore?: string;
   minLat?: number;
   minLon?: number;
   maxLat?: number;
   maxLon?: number;
   limit?: number;
+  offset?: number;
+  groupBySite?: boolean;
+  fresh?: boolean;
 };
 
-type SourceError = {
-  source: string;
-  message: string;
+/**
+ * Paging state of one source. `total` is the true number of matches, when known.
+ */
+type SourcePage = {
+  has_more: boolean;
+  total?: number;
+};
+
+type Source = 'national' | 'n2000' | 'ramsar';
+
+type SourcedArea = { source: Source; id: string; name: string };
+
+type SiteLink = {
+  from: { source: Source; id: string };
+  to: { source: Source; id: string };
+  relation: SiteRelation;
+  iou: number;
 };
 
 export const searchHandler = withErrorHandling(async (args: SearchInput) => {
@@ -61,25 +175,257 @@ export const searchHandler = withErrorHandling(async (args: SearchInput) => {
     args.minLat !== undefined || args.minLon !== undefined || args.maxLat !== undefined || args.maxLon !== undefined;
   const hasKommun = !!args.kommun;
   const hasLan = !!args.lan;
+  const hasName = !!args.name?.trim();
+  const hasN2000Filter = !!args.species?.trim() || !!args.habitat?.trim();
 
-  if (!hasBbox && !hasKommun && !hasLan) {
-    throw new ValidationError('Provide kommun/lan codes OR bbox coordinates (minLat, minLon, maxLat, maxLon)');
+  if (!hasBbox && !hasKommun && !hasLan && !hasName && !hasN2000Filter) {
+    throw new ValidationError(
+      'Provide kommun/lan codes, an area name, a species/habitat filter, OR bbox coordinates (minLat, minLon, maxLat, maxLon)',
+    );
   }
 
-  if (hasBbox && (hasKommun || hasLan)) {
-    throw new ValidationError('Provide either kommun/lan OR bbox coordinates, not both');
+  if (hasBbox && (hasKommun || hasLan || hasName || hasN2000Filter)) {
+    throw new ValidationError('Provide either kommun/lan/name/species/habitat OR bbox coordinates, not both');
   }
 
   const limit = args.limit ?? 100;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`limit must be a whole number between 1 and ${MAX_LIMIT}`, 'limit');
+  }
+  const offset = args.offset ?? 0;
+  if (!Number.isInteger(offset) || offset < 0 || offset > MAX_OFFSET) {
+    throw new ValidationError(`offset must be a whole number between 0 and ${MAX_OFFSET}`, 'offset');
+  }
+  const filters: AreaFilters = {
+    type: args.type?.trim() || undefined,
+    iucnCategory: args.iucnCategory?.trim() || undefined,
+    minAreaHa: args.minAreaHa,
+    maxAreaHa: args.maxAreaHa,
+    decidedAfter: args.decidedAfter?.trim() || undefined,
+    decidedBefore: args.decidedBefore?.trim() || undefined,
+  };
+  validateAreaFilters(filters);
+
+  const result = hasBbox
+    ? await searchByBbox(args, limit, offset, filters)
+    : await searchByKommunLan(args, limit, offset, filters);
+  if (!args.groupBySite) return result;
 
-  if (hasBbox) {
-    return searchByBbox(args, limit);
+  if (result.areas.length > MAX_GROUPED_AREAS) {
+    throw new ValidationError(
+      `groupBySite supports at most ${MAX_GROUPED_AREAS} areas per page, but ${result.areas.length} were found. ` +
+        'Lower limit or narrow the search.',
+      'groupBySite',
+    );
   }
 
-  return searchByKommunLan(args, limit);
+  const { areas, ...rest } = result;
+  const { sites, failed } = await groupIntoSites(areas);
+  return {
+    ...rest,
+    site_count: sites.length,
+    ...(failed.length > 0 && {
+      grouping_note: `Boundaries could not be fetched for ${failed.join(', ')} — listed as separate sites.`,
+    }),
+    sites,
+  };
 });
 
-async function searchByBbox(args: SearchInput, limit: number) {
+/**
+ * Cluster search results into physical sites by polygon overlap
+ *
+ * Designations that share a site (same_site, contains or within) are merged; partial
+ * overlaps are reported as links but keep their sites apart. Each site is named after
+ * its largest designation. Areas whose boundary cannot be fetched become single-area sites.
+ */
+async function groupIntoSites(areas: SourcedArea[]) {
+  const geometries = await runWithConcurrency(
+    areas.map((area) => () => getAreaGeometry(area.source, area.id).catch((): MultiPolygonCoords | null => null)),
+    NVV_API_CONCURRENCY,
+  );
+
+  const siteLinks: [number, number][] = [];
+  const reported: { pair: [number, number]; link: SiteLink }[] = [];
+  for (let i = 0; i < areas.length; i++) {
+    for (let j = i + 1; j < areas.length; j++) {
+      const [a, b] = [geometries[i], geometries[j]];
+      const overlap = a && b ? compareAreas(a, b) : null;
+      if (!overlap) continue;
+      if (isSameSiteLink(overlap)) siteLinks.push([i, j]);
+      reported.push({
+        pair: [i, j],
+        link: {
+          from: { source: areas[i].source, id: areas[i].id },
+          to: { source: areas[j].source, id: areas[j].id },
+          relation: overlap.relation,
+          iou: overlap.iou,
+        },
+      });
+    }
+  }
+
+  const sizes = geometries.map((geometry) => (geometry ? multiPolygonArea(geometry) : 0));
+  const sites = clusterLinked(areas.length, siteLinks).map((indices) => {
+    const largest = indices.reduce((best, i) => (sizes[i] > sizes[best] ? i : best), indices[0]);
+    return {
+      name: areas[largest].name,
+      sources: indices.map((i) => areas[i].source).filter((source, k, all) => all.indexOf(source) === k),
+      designations: indices.map((i) => areas[i]),
+      links: reported.filter(({ pair }) => indices.includes(pair[0]) || indices.includes(pair[1])).map(({ link }) => link),
+    };
+  });
+
+  const failed = areas.filter((_, i) => geometries[i] === null).map((area) => `${area.source}:${area.id}`);
+  return { sites, failed };
+}
+
+/**
+ * Apply the optional name and attribute filters to one source's results
+ */
+function refineResults<T extends { name: string }>(
+  areas: T[],
+  name: string | undefined,
+  filters: AreaFilters,
+  fields: (area: T) => FilterableFields,
+): T[] {
+  const filtered = hasAreaFilters(filters) ? areas.filter((area) => matchesAreaFilters(fields(area), filters)) : areas;
+  return name ? filterAndRankByName(filtered, name) : filtered;
+}
+
+/**
+ * Fetch one page from a REST nolinks endpoint
+ *
+ * The endpoints have no offset, so rows are fetched from the start: one more than the page
+ * end when passed through as-is, or REFINE_WINDOW rows when name matching or filtering
+ * client-side. Once the upstream list runs out the total is exact. `scanLimited` flags a
+ * refined search that filled the window, where matches beyond it were not seen.
+ *
+ * `fallbackRows` lists candidates without the upstream name filter. When the filtered rows
+ * match nothing, the name is matched client-side over the source's full list instead (one
+ * request, kept by the response cache for later searches).
+ */
+async function fetchRestPage<T extends { name: string }>(
+  fetchRows: (limit: number) => Promise<T[]>,
+  options: {
+    name?: string;
+    filters: AreaFilters;
+    fields: (area: T) => FilterableFields;
+    offset: number;
+    limit: number;
+    fallbackRows?: (limit: number) => Promise<T[]>;
+  },
+): Promise<{ areas: T[]; page: SourcePage; scanLimited: boolean }> {
+  const { name, filters, fields, offset, limit, fallbackRows } = options;
+  const refine = !!name || hasAreaFilters(filters);
+  let window = refine ? REFINE_WINDOW : offset + limit + 1;
+
+  let rows = await fetchRows(window);
+  let matches = refine ? refineResults(rows, name, filters, fields) : rows;
+  if (matches.length === 0 && name && fallbackRows) {
+    window = FULL_LIST_LIMIT;
+    rows = await fallbackRows(window);
+    matches = refineResults(rows, name, filters, fields);
+  }
+  const exhausted = rows.length < window;
+
+  return {
+    areas: matches.slice(offset, offset + limit),
+    page: { has_more: matches.length > offset + limit, ...(exhausted && { total: matches.length }) },
+    scanLimited: refine && !exhausted,
+  };
+}
+
+/**
+ * Paging state of a WFS-style page, where the upstream may report the total
+ * Without a total, a full page means there may be more.
+ */
+function bboxPageInfo(page: WfsBboxPage, offset: number, limit: number): SourcePage {
+  if (page.total === undefined) return { has_more: page.areas.length >= limit };
+  return { has_more: offset + page.areas.length < page.total, total: page.total };
+}
+
+/**
+ * Combine per-source paging into the response's paging block
+ *
+ * Every source pages with the same offset, so next_offset applies to all of them.
+ */
+function pagingSummary(offset: number, limit: number, pages: Partial<Record<Source, SourcePage>>) {
+  const hasMore = Object.values(pages).some((page) => page?.has_more);
+  return {
+    offset,
+    limit,
+    has_more: hasMore,
+    ...(hasMore && { next_offset: offset + limit }),
+    ...pages,
+  };
+}
+
+/**
+ * Resolve a species name against the N2000 species catalogue
+ *
+ * Returns the catalogue spelling on a case/diacritic-insensitive exact match.
+ * Unknown names fail with the closest catalogue names as suggestions.
+ * If the catalogue itself is unavailable, the name is passed through unvalidated.
+ */
+async function resolveSpecies(species: string): Promise<string> {
+  let catalog: N2000Species[];
+  try {
+    catalog = await n2000Client.getSpeciesCatalog();
+  } catch {
+    return species;
+  }
+
+  const matches = filterAndRankByName(catalog, species);
+  if (matches.length > 0 && nameMatchRank(matches[0].name, species) === 0) {
+    return matches[0].name;
+  }
+
+  const suggestions = matches
+    .map((s) => s.name)
+    .filter((n, i, all) => all.indexOf(n) === i)
+    .slice(0, MAX_SUGGESTIONS);
+  throw new ValidationError(
+    `Unknown Natura 2000 species '${species}'. ` +
+      (suggestions.length > 0
+        ? `Did you mean: ${suggestions.join(', ')}?`
+        : 'Use the scientific name as listed by Natura 2000 (e.g., Lutra lutra).'),
+    'species',
+  );
+}
+
+/**
+ * Resolve a habitat code (or habitat name) against the N2000 habitat catalogue
+ *
+ * Accepts an exact code ('9010') or an exact habitat name; anything else fails with
+ * "code – name" suggestions. Passed through unvalidated if the catalogue is unavailable.
+ */
+async function resolveHabitat(habitat: string): Promise<string> {
+  let catalog: N2000Habitat[];
+  try {
+    catalog = await n2000Client.getHabitatCatalog();
+  } catch {
+    return habitat;
+  }
+
+  const byCode = catalog.find((h) => h.code.toLowerCase() === habitat.toLowerCase());
+  if (byCode) return byCode.code;
+
+  const matches = filterAndRankByName(catalog, habitat);
+  if (matches.length > 0 && nameMatchRank(matches[0].name, habitat) === 0) {
+    return matches[0].code;
+  }
+
+  // Partial codes ('901') suggest every habitat type starting with them
+  const codeMatches = catalog.filter((h) => h.code.startsWith(habitat));
+  const suggestions = [...codeMatches, ...matches].slice(0, MAX_SUGGESTIONS).map((h) => `${h.code} – ${h.name}`);
+  throw new ValidationError(
+    `Unknown Natura 2000 habitat type '${habitat}'. ` +
+      (suggestions.length > 0 ? `Did you mean: ${suggestions.join(', ')}?` : 'Use a 4-digit EU habitat code (e.g., 9010).'),
+    'habitat',
+  );
+}
+
+async function searchByBbox(args: SearchInput, limit: number, offset: number, filters: AreaFilters) {
   if (args.minLat === undefined || args.minLon === undefined || args.maxLat === undefined || args.maxLon === undefined) {
     throw new ValidationError('All four bbox parameters required: minLat, minLon, maxLat, maxLon');
   }
@@ -92,16 +438,28 @@ async function searchByBbox(args: SearchInput, limit: number) {
     maxLon: args.maxLon,
   });
 
-  const [national, n2000] = await Promise.allSettled([
-    wfsClient.searchNational(swerefBbox, limit),
-    wfsClient.searchN2000(swerefBbox, limit),
+  // The N2000 WFS layer has no IUCN category or decision date; Ramsar has no IUCN category
+  const skipN2000 = !!filters.iucnCategory || !!filters.decidedAfter || !!filters.decidedBefore;
+  const skipRamsar = !!filters.iucnCategory;
+  const notes: string[] = [];
+  if (skipN2000)
+    notes.push('IUCN and decision date filters are not available for Natura 2000 in bbox search — N2000 was skipped.');
+  if (skipRamsar) notes.push('iucnCategory applies to national areas only — Ramsar was skipped.');
+
+  const skipped: WfsBboxPage = { areas: [], total: 0 };
+  const [national, n2000, ramsar] = await Promise.allSettled([
+    wfsClient.searchNational(swerefBbox, limit, filters, offset),
+    skipN2000 ? skipped : wfsClient.searchN2000(swerefBbox, limit, filters, offset),
+    skipRamsar ? skipped : ramsarClient.searchByBbox(swerefBbox, limit, filters, offset),
   ]);
 
   const errors: SourceError[] = [];
-  const areas: (WfsBboxArea & { source: string })[] = [];
+  const areas: (WfsBboxArea & { source: Source })[] = [];
+  const pages: Partial<Record<Source, SourcePage>> = {};
 
   if (national.status === 'fulfilled') {
-    for (const area of national.value) {
+    pages.national = bboxPageInfo(national.value, offset, limit);
+    for (const area of national.value.areas) {
       areas.push({ source: 'national', ...area });
     }
   } else {
@@ -112,7 +470,8 @@ async function searchByBbox(args: SearchInput, limit: number) {
   }
 
   if (n2000.status === 'fulfilled') {
-    for (const area of n2000.value) {
+    pages.n2000 = bboxPageInfo(n2000.value, offset, limit);
+    for (const area of n2000.value.areas) {
       areas.push({ source: 'n2000', ...area });
     }
   } else {
@@ -122,37 +481,99 @@ async function searchByBbox(args: SearchInput, limit: number) {
     });
   }
 
-  const nationalCount = national.status === 'fulfilled' ? national.value.length : 0;
-  const n2000Count = n2000.status === 'fulfilled' ? n2000.value.length : 0;
+  if (ramsar.status === 'fulfilled') {
+    pages.ramsar = bboxPageInfo(ramsar.value, offset, limit);
+    for (const area of ramsar.value.areas) {
+      areas.push({ source: 'ramsar', ...area });
+    }
+  } else {
+    errors.push({
+      source: 'ramsar',
+      message: ramsar.reason?.message ?? 'An unexpected error occurred while searching Ramsar wetland areas.',
+    });
+  }
+
+  const nationalCount = national.status === 'fulfilled' ? national.value.areas.length : 0;
+  const n2000Count = n2000.status === 'fulfilled' ? n2000.value.areas.length : 0;
+  const ramsarCount = ramsar.status === 'fulfilled' ? ramsar.value.areas.length : 0;
 
   return {
-    total_count: nationalCount + n2000Count,
+    total_count: nationalCount + n2000Count + ramsarCount,
     national_count: nationalCount,
     n2000_count: n2000Count,
-    note: 'Bbox search covers national and Natura 2000 areas. Ramsar (international wetlands) requires kommun/lan codes.',
+    ramsar_count: ramsarCount,
+    paging: pagingSummary(offset, limit, pages),
+    ...(notes.length > 0 && { note: notes.join(' ') }),
     errors,
     areas,
   };
 }
 
-async function searchByKommunLan(args: SearchInput, limit: number) {
-  const searchParams = {
+async function searchByKommunLan(args: SearchInput, limit: number, offset: number, filters: AreaFilters) {
+  const name = args.name?.trim() || undefined;
+  const hasRegion = !!args.kommun || !!args.lan;
+
+  // Species and habitat data only exist for Natura 2000 — national and Ramsar are skipped
+  const [species, habitat] = await Promise.all([
+    args.species?.trim() ? resolveSpecies(args.species.trim()) : undefined,
+    args.habitat?.trim() ? resolveHabitat(args.habitat.trim()) : undefined,
+  ]);
+  const n2000Only = !!species || !!habitat;
+  const nationalOnly = !!filters.iucnCategory;
+
+  const notes: string[] = [];
+  if (n2000Only) notes.push('Species/habitat filters apply to Natura 2000 only — national and Ramsar areas were not searched.');
+  if (nationalOnly) notes.push('iucnCategory applies to national areas only — Natura 2000 and Ramsar areas were not searched.');
+
+  // Within a kommun/lan the name is matched client-side over the full region list, so partial and
+  // diacritic-insensitive matching work. Name-only searches use the upstream namn filter first; when
+  // that finds nothing (e.g. 'store mosse' without the ö, or a partial name), the name is matched
+  // client-side over the full nationwide list instead.
+  const regionParams = {
     kommun: args.kommun || undefined,
     lan: args.lan || undefined,
-    limit,
+    namn: hasRegion ? undefined : name,
   };
+  const nameFallback = !!name && !hasRegion;
+  const pageOptions = { name, filters, offset, limit };
+  const skipped = { areas: [], page: { has_more: false, total: 0 }, scanLimited: false };
 
   const [national, n2000, ramsar] = await Promise.allSettled([
-    nvvClient.listAreas(searchParams),
-    n2000Client.listAreas(searchParams),
-    ramsarClient.listAreas(searchParams),
+    n2000Only
+      ? skipped
+      : fetchRestPage((rows) => nvvClient.listAreas({ ...regionParams, limit: rows }), {
+          ...pageOptions,
+          fields: (a) => a,
+          ...(nameFallback && { fallbackRows: (rows: number) => nvvClient.listAreas({ limit: rows }) }),
+        }),
+    nationalOnly
+      ? skipped
+      : fetchRestPage(
+          (rows) => n2000Client.listAreas({ ...regionParams, artnamn: species, naturtypkod: habitat, limit: rows }),
+          {
+            ...pageOptions,
+            fields: (a) => ({ ...a, type: a.area_type }),
+            ...(nameFallback && {
+              fallbackRows: (rows: number) => n2000Client.listAreas({ artnamn: species, naturtypkod: habitat, limit: rows }),
+            }),
+          },
+        ),
+    n2000Only || nationalOnly
+      ? skipped
+      : fetchRestPage((rows) => ramsarClient.listAreas({ ...regionParams, limit: rows }), {
+          ...pageOptions,
+          fields: (a) => ({ type: a.protection_type, area_ha: a.total_area_ha, decision_date: a.latest_decision }),
+          ...(nameFallback && { fallbackRows: (rows: number) => ramsarClient.listAreas({ limit: rows }) }),
+        }),
   ]);
 
   const errors: SourceError[] = [];
-  const areas: Record<string, unknown>[] = [];
+  const areas: (Record<string, unknown> & SourcedArea)[] = [];
+  const pages: Partial<Record<Source, SourcePage>> = {};
 
   if (national.status === 'fulfilled') {
-    for (const area of national.value) {
+    pages.national = national.value.page;
+    for (const area of national.value.areas) {
       areas.push({ source: 'national', ...area });
     }
   } else {
@@ -163,7 +584,8 @@ async function searchByKommunLan(args: SearchInput, limit: number) {
   }
 
   if (n2000.status === 'fulfilled') {
-    for (const area of n2000.value) {
+    pages.n2000 = n2000.value.page;
+    for (const area of n2000.value.areas) {
       const { kod, ...rest } = area;
       areas.push({ source: 'n2000', id: kod, ...rest });
     }
@@ -175,7 +597,8 @@ async function searchByKommunLan(args: SearchInput, limit: number) {
   }
 
   if (ramsar.status === 'fulfilled') {
-    for (const area of ramsar.value) {
+    pages.ramsar = ramsar.value.page;
+    for (const area of ramsar.value.areas) {
       areas.push({ source: 'ramsar', ...area });
     }
   } else {
@@ -185,15 +608,36 @@ async function searchByKommunLan(args: SearchInput, limit: number) {
     });
   }
 
-  const nationalCount = national.status === 'fulfilled' ? national.value.length : 0;
-  const n2000Count = n2000.status === 'fulfilled' ? n2000.value.length : 0;
-  const ramsarCount = ramsar.status === 'fulfilled' ? ramsar.value.length : 0;
+  const nationalCount = national.status === 'fulfilled' ? national.value.areas.length : 0;
+  const n2000Count = n2000.status === 'fulfilled' ? n2000.value.areas.length : 0;
+  const ramsarCount = ramsar.status === 'fulfilled' ? ramsar.value.areas.length : 0;
+  const totalCount = nationalCount + n2000Count + ramsarCount;
+
+  // Rank across sources so exact name matches come first regardless of source
+  if (name) {
+    areas.sort((a, b) => (nameMatchRank(a.name, name) ?? 4) - (nameMatchRank(b.name, name) ?? 4));
+  }
+
+  if ([national, n2000, ramsar].some((result) => result.status === 'fulfilled' && result.value.scanLimited)) {
+    notes.push(
+      `Name and filter matching covered the first ${REFINE_WINDOW} areas per source — some matches may be missing. ` +
+        'Narrow the search with a kommun code.',
+    );
+  }
+
+  if (name && !hasRegion && totalCount === 0) {
+    notes.push('No areas matched the name. Check the spelling, or add a kommun/lan code to search all areas in the region.');
+  }
 
   return {
-    total_count: nationalCount + n2000Count + ramsarCount,
+    total_count: totalCount,
     national_count: nationalCount,
     n2000_count: n2000Count,
     ramsar_count: ramsarCount,
+    ...(name && { query: name }),
+    paging: pagingSummary(offset, limit, pages),
+    ...(n2000Only && { filters: { species, habitat } }),
+    ...(notes.length > 0 && { note: notes.join(' ') }),
     errors,
     areas,
   };
@@ -160,6 +160,8 @@ export interface WfsNationalProperties {
   AREA_HA: number;
   KOMMUN: string;
   LAN: string;
+  IUCNKAT?: string;
+  BESLDATUM?: string;
 }
 
 export interface WfsN2000Properties {